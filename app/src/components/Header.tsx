@@ -10,7 +10,7 @@ export function Header() {
           <div>
             <p className="brand-kicker">PrivOracle</p>
             <h1 className="brand-title">Encrypted Daily Price Arena</h1>
-            <p className="brand-subtitle">Predict ETH or BTC with FHE. Confirm tomorrow. Earn encrypted points.</p>
+            <p className="brand-subtitle">Predict crypto prices with FHE. Confirm tomorrow. Earn encrypted points.</p>
           </div>
         </div>
         <div className="wallet-box">
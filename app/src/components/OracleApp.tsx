@@ -1,36 +1,59 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Contract, ethers } from 'ethers';
-import { useAccount, useReadContract } from 'wagmi';
-import { isAddress } from 'viem';
+import { useAccount, useChainId, usePublicClient, useReadContract, useReadContracts } from 'wagmi';
+import { hardhat } from 'wagmi/chains';
+import { getAbiItem, isAddress } from 'viem';
 
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
-import { useZamaInstance } from '../hooks/useZamaInstance';
+import { CONTRACT_ABI, CONTRACT_ADDRESS, LOCAL_CONTRACT_ADDRESS, POINTS_ABI } from '../config/contracts';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
 import { useEthersSigner } from '../hooks/useEthersSigner';
+import { getLogsInPages } from '../utils/logs';
 import { Header } from './Header';
+import { PredictionHistory } from './PredictionHistory';
+import { PublicProfile } from './PublicProfile';
 import '../styles/OracleApp.css';
 
-const ASSETS = [
-  { id: 0, symbol: 'ETH', name: 'Ethereum' },
-  { id: 1, symbol: 'BTC', name: 'Bitcoin' },
-] as const;
+type AssetOption = {
+  id: number;
+  symbol: string;
+  decimals: number;
+  enabled: boolean;
+};
 
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const placedEvent = getAbiItem({ abi: CONTRACT_ABI, name: 'PredictionPlaced' });
 
 const directionOptions = [
   { value: '1', label: 'Greater than' },
   { value: '2', label: 'Less than' },
+  { value: 'band', label: 'Inside a band' },
 ] as const;
 
 function isNumeric(value: string) {
   return /^[0-9]+$/.test(value);
 }
 
+function parsePrice(value: string, decimals: number) {
+  const match = /^([0-9]+)(?:\.([0-9]+))?$/.exec(value.trim());
+  if (!match || (match[2]?.length ?? 0) > decimals) {
+    return undefined;
+  }
+  return ethers.parseUnits(value.trim(), decimals);
+}
+
+function formatPrice(value: bigint, decimals: number) {
+  return ethers.formatUnits(value, decimals).replace(/\.0$/, '');
+}
+
 export function OracleApp() {
   const { address } = useAccount();
-  const { instance, isLoading: isZamaLoading, error: zamaError } = useZamaInstance();
   const signerPromise = useEthersSigner();
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const isLocalChain = chainId === hardhat.id;
+  const defaultAddress = isLocalChain ? LOCAL_CONTRACT_ADDRESS : CONTRACT_ADDRESS;
 
-  const [contractAddressInput, setContractAddressInput] = useState(CONTRACT_ADDRESS);
+  const [contractAddressInput, setContractAddressInput] = useState(defaultAddress);
   const resolvedAddress = useMemo(
     () => {
       if (!isAddress(contractAddressInput)) {
@@ -43,11 +66,18 @@ export function OracleApp() {
     },
     [contractAddressInput],
   );
-  const safeAddress = (resolvedAddress ?? CONTRACT_ADDRESS) as `0x${string}`;
+  const safeAddress = (resolvedAddress ?? defaultAddress) as `0x${string}`;
+  const { instance, isLoading: isZamaLoading, error: zamaError, decrypt } = useDecryptionSession(resolvedAddress);
+
+  useEffect(() => {
+    setContractAddressInput(defaultAddress);
+  }, [defaultAddress]);
 
   const [selectedAsset, setSelectedAsset] = useState<number>(0);
   const [predictionPrice, setPredictionPrice] = useState('');
   const [predictionDirection, setPredictionDirection] = useState('1');
+  const [predictionUpper, setPredictionUpper] = useState('');
+  const [predictionHorizon, setPredictionHorizon] = useState('1');
   const [stakeAmount, setStakeAmount] = useState('0.02');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitStatus, setSubmitStatus] = useState('');
@@ -56,6 +86,16 @@ export function OracleApp() {
   const [confirmDay, setConfirmDay] = useState('');
   const [isConfirming, setIsConfirming] = useState(false);
   const [confirmStatus, setConfirmStatus] = useState('');
+  const [isDecryptingPrediction, setIsDecryptingPrediction] = useState(false);
+  const [decryptedGuess, setDecryptedGuess] = useState<{
+    asset: number;
+    day: bigint;
+    price: bigint;
+    second: bigint;
+  } | null>(null);
+
+  const [sentimentBusyAsset, setSentimentBusyAsset] = useState<number | null>(null);
+  const [sentimentStatus, setSentimentStatus] = useState('');
 
   const [adminAsset, setAdminAsset] = useState<number>(0);
   const [adminPrice, setAdminPrice] = useState('');
@@ -66,6 +106,21 @@ export function OracleApp() {
   const [decryptedPoints, setDecryptedPoints] = useState<string | null>(null);
   const [decryptStatus, setDecryptStatus] = useState('');
 
+  const [streakAsset, setStreakAsset] = useState<number>(0);
+  const [isDecryptingStreak, setIsDecryptingStreak] = useState(false);
+  const [decryptedStreak, setDecryptedStreak] = useState<string | null>(null);
+  const [streakStatus, setStreakStatus] = useState('');
+
+  const [redeemAmount, setRedeemAmount] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [confirmRedeemAll, setConfirmRedeemAll] = useState(false);
+  const [redeemStatus, setRedeemStatus] = useState('');
+
+  const [sendRecipient, setSendRecipient] = useState('');
+  const [sendAmount, setSendAmount] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sendStatus, setSendStatus] = useState('');
+
   const { data: ownerData } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
@@ -73,53 +128,119 @@ export function OracleApp() {
     query: { enabled: !!resolvedAddress },
   });
 
-  const { data: currentDayData } = useReadContract({
+  const { data: quorumData } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
-    functionName: 'currentDay',
+    functionName: 'getQuorum',
+    query: { enabled: !!resolvedAddress },
+  });
+
+  const { data: rolesData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getRoles',
+    args: address ? [address] : undefined,
+    query: { enabled: !!resolvedAddress && !!address },
+  });
+
+  const { data: priceFeedData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getPriceFeed',
+    args: [adminAsset],
     query: { enabled: !!resolvedAddress },
   });
 
-  const { data: ethLatestDay } = useReadContract({
+  const { data: currentDayData } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
-    functionName: 'getLatestDay',
-    args: [0],
+    functionName: 'currentDay',
     query: { enabled: !!resolvedAddress },
   });
 
-  const { data: btcLatestDay } = useReadContract({
+  const { data: assetListData } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
-    functionName: 'getLatestDay',
-    args: [1],
+    functionName: 'listAssets',
     query: { enabled: !!resolvedAddress },
   });
 
+  const assets = useMemo<AssetOption[]>(() => {
+    if (!assetListData) {
+      return [];
+    }
+    const [symbols, decimals, enabled] = assetListData;
+    return symbols.map((symbol, id) => ({ id, symbol, decimals: decimals[id], enabled: enabled[id] }));
+  }, [assetListData]);
+  const activeAssets = assets.filter((asset) => asset.enabled);
+  const selectedAssetDecimals = assets[selectedAsset]?.decimals ?? 0;
+  const adminAssetDecimals = assets[adminAsset]?.decimals ?? 0;
+
+  const { data: latestDaysData } = useReadContracts({
+    contracts: assets.map((asset) => ({
+      address: safeAddress,
+      abi: CONTRACT_ABI,
+      functionName: 'getLatestDay',
+      args: [asset.id],
+    })),
+    query: { enabled: !!resolvedAddress && assets.length > 0 },
+  });
+
   const currentDay = currentDayData as bigint | undefined;
-  const ethLatestDayValue = ethLatestDay as bigint | undefined;
-  const btcLatestDayValue = btcLatestDay as bigint | undefined;
+  const latestDayResults = latestDaysData as readonly { result?: unknown }[] | undefined;
+  const latestDays = assets.map((_, index) => latestDayResults?.[index]?.result as bigint | undefined);
+
+  const { data: latestPricesData } = useReadContracts({
+    contracts: assets.map((asset, index) => ({
+      address: safeAddress,
+      abi: CONTRACT_ABI,
+      functionName: 'getPrice',
+      args: [asset.id, latestDays[index] ?? 0n],
+    })),
+    query: { enabled: !!resolvedAddress && assets.length > 0 && latestDays.every((day) => day !== undefined) },
+  });
+
+  const latestPriceResults = latestPricesData as readonly { result?: unknown }[] | undefined;
+
+  const { data: sentimentsData, refetch: refetchSentiments } = useReadContracts({
+    contracts: assets.map((asset, index) => ({
+      address: safeAddress,
+      abi: CONTRACT_ABI,
+      functionName: 'getSentiment',
+      args: [asset.id, latestDays[index] ?? 0n],
+    })),
+    query: { enabled: !!resolvedAddress && assets.length > 0 && latestDays.every((day) => day !== undefined) },
+  });
 
-  const { data: ethPriceData } = useReadContract({
+  const sentimentResults = sentimentsData as readonly { result?: unknown }[] | undefined;
+
+  const { data: pointsHandle } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
-    functionName: 'getPrice',
-    args: [0, (ethLatestDayValue ?? 0n) as bigint],
-    query: { enabled: !!resolvedAddress && ethLatestDayValue !== undefined },
+    functionName: 'getPoints',
+    args: address ? [address] : undefined,
+    query: { enabled: !!resolvedAddress && !!address },
   });
 
-  const { data: btcPriceData } = useReadContract({
+  const { data: pointsTokenData } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
-    functionName: 'getPrice',
-    args: [1, (btcLatestDayValue ?? 0n) as bigint],
-    query: { enabled: !!resolvedAddress && btcLatestDayValue !== undefined },
+    functionName: 'getPointsToken',
+    query: { enabled: !!resolvedAddress },
   });
 
-  const { data: pointsHandle } = useReadContract({
+  const { data: streakData } = useReadContract({
     address: safeAddress,
     abi: CONTRACT_ABI,
-    functionName: 'getPoints',
+    functionName: 'getStreak',
+    args: address ? [address, streakAsset] : undefined,
+    query: { enabled: !!resolvedAddress && !!address },
+  });
+
+  const { data: owedData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getOwed',
     args: address ? [address] : undefined,
     query: { enabled: !!resolvedAddress && !!address },
   });
@@ -139,6 +260,36 @@ export function OracleApp() {
     query: { enabled: !!resolvedAddress && !!address && confirmDayValue !== undefined },
   });
 
+  const { data: revealData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getReveal',
+    args: address && confirmDayValue !== undefined ? [address, confirmAsset, confirmDayValue] : undefined,
+    query: { enabled: !!resolvedAddress && !!address && confirmDayValue !== undefined },
+  });
+
+  const { data: confirmPriceData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getPrice',
+    args: confirmDayValue !== undefined ? [confirmAsset, confirmDayValue] : undefined,
+    query: { enabled: !!resolvedAddress && confirmDayValue !== undefined },
+  });
+
+  const { data: refundWindowData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getRefundWindow',
+    query: { enabled: !!resolvedAddress },
+  });
+
+  const { data: horizonData } = useReadContract({
+    address: safeAddress,
+    abi: CONTRACT_ABI,
+    functionName: 'getHorizon',
+    query: { enabled: !!resolvedAddress },
+  });
+
   useEffect(() => {
     const fallback = currentDay !== undefined ? currentDay + 1n : undefined;
     if (confirmDay === '' && fallback !== undefined) {
@@ -146,16 +297,38 @@ export function OracleApp() {
     }
   }, [currentDay, confirmDay]);
 
+  const confirmLatestDay = latestDays[confirmAsset];
   useEffect(() => {
-    const latestDay = confirmAsset === 0 ? ethLatestDayValue : btcLatestDayValue;
-    if (latestDay !== undefined) {
-      setConfirmDay(latestDay.toString());
+    if (confirmLatestDay !== undefined) {
+      setConfirmDay(confirmLatestDay.toString());
     }
-  }, [confirmAsset, ethLatestDayValue, btcLatestDayValue]);
+  }, [confirmAsset, confirmLatestDay]);
 
-  const predictionDay = currentDay !== undefined ? currentDay + 1n : undefined;
+  const [maxHorizon, horizonBonusBps] = horizonData ?? [1n, 0n];
+  const horizonOptions = useMemo(
+    () =>
+      Array.from({ length: Number(maxHorizon) }, (_, index) => {
+        const horizon = BigInt(index + 1);
+        const multiplier = Number(10_000n + horizonBonusBps * (horizon - 1n)) / 10_000;
+        return { horizon, label: `+${horizon}d · up to ${multiplier.toFixed(2)}x` };
+      }),
+    [maxHorizon, horizonBonusBps],
+  );
+  const predictionDay = currentDay !== undefined ? currentDay + BigInt(predictionHorizon) : undefined;
   const ownerAddress = ownerData as string | undefined;
   const isOwner = ownerAddress && address ? ownerAddress.toLowerCase() === address.toLowerCase() : false;
+  const quorum = (quorumData as bigint | undefined) ?? 0n;
+  const usesReporters = quorum > 0n;
+  const priceFeed = priceFeedData as string | undefined;
+  const hasPriceFeed = !!priceFeed && priceFeed !== ZERO_ADDRESS;
+  const [isReporter, isPauser, isTreasury] = rolesData ?? [false, false, false];
+  const callerRoles = [
+    isOwner ? 'Owner' : null,
+    isReporter ? 'Reporter' : null,
+    isPauser ? 'Pauser' : null,
+    isTreasury ? 'Treasury' : null,
+  ].filter((role): role is string => role !== null);
+  const canRecord = !hasPriceFeed && isReporter;
 
   const handlePlacePrediction = async () => {
     setSubmitStatus('');
@@ -167,8 +340,23 @@ export function OracleApp() {
       setSubmitStatus('Connect your wallet and initialize encryption.');
       return;
     }
-    if (!isNumeric(predictionPrice) || !isNumeric(predictionDirection)) {
-      setSubmitStatus('Enter a valid integer price and direction.');
+    const isBand = predictionDirection === 'band';
+    const priceValue = parsePrice(predictionPrice, selectedAssetDecimals);
+    const upperValue = isBand ? parsePrice(predictionUpper, selectedAssetDecimals) : undefined;
+    if (priceValue === undefined || (isBand ? upperValue === undefined : !isNumeric(predictionDirection))) {
+      setSubmitStatus(
+        isBand
+          ? `Enter valid band bounds (up to ${selectedAssetDecimals} decimals).`
+          : `Enter a valid price (up to ${selectedAssetDecimals} decimals) and direction.`,
+      );
+      return;
+    }
+    if (upperValue !== undefined && upperValue < priceValue) {
+      setSubmitStatus('The band high must not be below the band low.');
+      return;
+    }
+    if (predictionDay === undefined) {
+      setSubmitStatus('Current day unavailable.');
       return;
     }
 
@@ -179,28 +367,35 @@ export function OracleApp() {
         throw new Error('Signer unavailable');
       }
 
-      const priceValue = BigInt(predictionPrice);
-      const directionValue = BigInt(predictionDirection);
       const stakeValue = ethers.parseEther(stakeAmount);
 
       const input = instance.createEncryptedInput(resolvedAddress, address);
       input.add64(priceValue);
-      input.add8(directionValue);
+      if (upperValue !== undefined) {
+        input.add64(upperValue);
+      } else {
+        input.add8(BigInt(predictionDirection));
+      }
       const encryptedInput = await input.encrypt();
 
       const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
-      const tx = await contract.placePrediction(
+      const placeArgs = [
         selectedAsset,
+        predictionDay,
         encryptedInput.handles[0],
         encryptedInput.handles[1],
         encryptedInput.inputProof,
         { value: stakeValue },
-      );
+      ] as const;
+      const tx = isBand
+        ? await contract.placeRangePrediction(...placeArgs)
+        : await contract.placePrediction(...placeArgs);
 
       setSubmitStatus('Transaction sent. Waiting for confirmation...');
       await tx.wait();
       setSubmitStatus('Prediction submitted successfully.');
       setPredictionPrice('');
+      setPredictionUpper('');
     } catch (error) {
       console.error(error);
       setSubmitStatus(`Submission failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -244,53 +439,281 @@ export function OracleApp() {
     }
   };
 
-  const handleDecryptPoints = async () => {
-    setDecryptStatus('');
+  const handleConfirmAll = async () => {
+    setConfirmStatus('');
     if (!resolvedAddress) {
-      setDecryptStatus('Invalid contract address.');
+      setConfirmStatus('Invalid contract address.');
       return;
     }
-    if (!instance || !address || !hasPointsHandle || !signerPromise) {
-      setDecryptStatus('Connect your wallet to decrypt points.');
+    if (!address || !signerPromise) {
+      setConfirmStatus('Connect your wallet first.');
       return;
     }
 
-    setIsDecrypting(true);
+    setIsConfirming(true);
     try {
-      const keypair = instance.generateKeypair();
-      const handleContractPairs = [
-        {
-          handle: pointsHandleValue,
-          contractAddress: resolvedAddress,
-        },
-      ];
-      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '5';
-      const contractAddresses = [resolvedAddress];
-
-      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
       const signer = await signerPromise;
-      if (!signer) {
+      if (!signer || !publicClient) {
         throw new Error('Signer unavailable');
       }
 
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-        eip712.message,
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      setConfirmStatus('Looking for pending predictions...');
+      const placed = await getLogsInPages(publicClient, resolvedAddress, (fromBlock, toBlock) =>
+        publicClient.getLogs({
+          address: resolvedAddress,
+          event: placedEvent,
+          args: { user: address },
+          fromBlock,
+          toBlock,
+        }),
+      );
+
+      // Only entries the contract would confirm go into the batch; confirmed, refunded and closed ones are dropped.
+      const pendingAssets: number[] = [];
+      const pendingDays: bigint[] = [];
+      for (const log of placed) {
+        const asset = Number(log.args.asset);
+        const day = log.args.day as bigint;
+        const blocker = await publicClient.readContract({
+          address: resolvedAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getConfirmationBlocker',
+          args: [address, asset, day],
+        });
+        if (blocker === '') {
+          pendingAssets.push(asset);
+          pendingDays.push(day);
+        }
+      }
+
+      if (pendingAssets.length === 0) {
+        setConfirmStatus('No predictions are ready to confirm.');
+        return;
+      }
+
+      const tx = await contract.confirmPredictions(pendingAssets, pendingDays);
+      setConfirmStatus(`Confirming ${pendingAssets.length} predictions...`);
+      const receipt = await tx.wait();
+      const skipped = receipt.logs.filter(
+        (log: ethers.Log) => contract.interface.parseLog(log)?.name === 'PredictionSkipped',
+      ).length;
+      setConfirmStatus(
+        `Confirmed ${pendingAssets.length - skipped} predictions${skipped > 0 ? `, skipped ${skipped}` : ''}.`,
       );
+    } catch (error) {
+      console.error(error);
+      setConfirmStatus(`Confirmation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const handleClaimRefund = async () => {
+    setConfirmStatus('');
+    if (!resolvedAddress) {
+      setConfirmStatus('Invalid contract address.');
+      return;
+    }
+    if (!signerPromise) {
+      setConfirmStatus('Connect your wallet first.');
+      return;
+    }
+    if (confirmDayValue === undefined) {
+      setConfirmStatus('Provide a valid day value.');
+      return;
+    }
+
+    setIsConfirming(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      const tx = await contract.claimRefund(confirmAsset, confirmDayValue);
+      setConfirmStatus('Refund sent. Waiting for finality...');
+      await tx.wait();
+      setConfirmStatus('Stake refunded.');
+    } catch (error) {
+      console.error(error);
+      setConfirmStatus(`Refund failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const handleRevealPrediction = async () => {
+    setConfirmStatus('');
+    if (!resolvedAddress) {
+      setConfirmStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !address || !signerPromise) {
+      setConfirmStatus('Connect your wallet and initialize encryption.');
+      return;
+    }
+    if (confirmDayValue === undefined) {
+      setConfirmStatus('Provide a valid day value.');
+      return;
+    }
+
+    setIsConfirming(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      let handles: string[];
+      if (revealRequested) {
+        // An earlier attempt made the values decryptable but never published them; reuse its handles.
+        const [requested] = await contract.queryFilter(
+          contract.filters.PredictionRevealRequested(address, confirmAsset, confirmDayValue),
+        );
+        if (!requested || !('args' in requested)) {
+          throw new Error('Reveal request not found');
+        }
+        handles = [...requested.args.handles];
+      } else {
+        const tx = await contract.revealPrediction(confirmAsset, confirmDayValue);
+        setConfirmStatus('Making the prediction public. Waiting for confirmation...');
+        const receipt = await tx.wait();
+        const requested = receipt.logs
+          .map((log: ethers.Log) => contract.interface.parseLog(log))
+          .find((parsed: ethers.LogDescription | null) => parsed?.name === 'PredictionRevealRequested');
+        if (!requested) {
+          throw new Error('Reveal request not found in receipt');
+        }
+        handles = [...requested.args.handles];
+      }
 
-      const result = await instance.userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        contractAddresses,
+      setConfirmStatus('Decrypting the prediction...');
+      const decryption = await instance.publicDecrypt(handles);
+      const [price, second, correct] = handles.map((handle) => decryption.clearValues[handle]);
+      const finalizeTx = await contract.finalizeReveal(
         address,
-        startTimeStamp,
-        durationDays,
+        confirmAsset,
+        confirmDayValue,
+        price,
+        predictionBand ? 0 : second,
+        predictionBand ? second : 0,
+        correct,
+        decryption.decryptionProof,
       );
+      setConfirmStatus('Publishing the clear values...');
+      await finalizeTx.wait();
+      setConfirmStatus(`Prediction revealed: ${correct ? 'correct' : 'wrong'}. It now shows on your public profile.`);
+    } catch (error) {
+      console.error(error);
+      setConfirmStatus(`Reveal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsConfirming(false);
+    }
+  };
 
+  const handleRevealSentiment = async (assetId: number, day: bigint) => {
+    setSentimentStatus('');
+    if (!resolvedAddress) {
+      setSentimentStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !signerPromise) {
+      setSentimentStatus('Connect your wallet and initialize encryption.');
+      return;
+    }
+
+    setSentimentBusyAsset(assetId);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      const [requested] = await contract.getSentiment(assetId, day);
+      if (!requested) {
+        const tx = await contract.requestSentimentReveal(assetId, day);
+        setSentimentStatus('Requesting the sentiment reveal. Waiting for confirmation...');
+        await tx.wait();
+      }
+
+      const [, revealed, upHandle, downHandle] = await contract.getSentiment(assetId, day);
+      if (!revealed) {
+        setSentimentStatus('Decrypting the stake totals...');
+        const decryption = await instance.publicDecrypt([upHandle, downHandle]);
+        const revealTx = await contract.revealSentiment(
+          assetId,
+          day,
+          decryption.clearValues[upHandle],
+          decryption.clearValues[downHandle],
+          decryption.decryptionProof,
+        );
+        setSentimentStatus('Publishing the totals...');
+        await revealTx.wait();
+      }
+
+      setSentimentStatus('Sentiment revealed.');
+      await refetchSentiments();
+    } catch (error) {
+      console.error(error);
+      setSentimentStatus(`Reveal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSentimentBusyAsset(null);
+    }
+  };
+
+  const handleDecryptPrediction = async () => {
+    setConfirmStatus('');
+    if (!resolvedAddress) {
+      setConfirmStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !address || !signerPromise) {
+      setConfirmStatus('Connect your wallet and initialize encryption.');
+      return;
+    }
+    if (confirmDayValue === undefined || !hasPredictionHandles || !predictionPriceHandle || !predictionSecondHandle) {
+      setConfirmStatus('No prediction stored for this asset and day.');
+      return;
+    }
+
+    setIsDecryptingPrediction(true);
+    try {
+      // The price and the direction (or band high) are decrypted together.
+      const result = await decrypt([predictionPriceHandle, predictionSecondHandle]);
+
+      setDecryptedGuess({
+        asset: confirmAsset,
+        day: confirmDayValue,
+        price: BigInt(result[predictionPriceHandle]),
+        second: BigInt(result[predictionSecondHandle]),
+      });
+      setConfirmStatus('Decryption complete.');
+    } catch (error) {
+      console.error(error);
+      setConfirmStatus(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsDecryptingPrediction(false);
+    }
+  };
+
+  const handleDecryptPoints = async () => {
+    setDecryptStatus('');
+    if (!resolvedAddress) {
+      setDecryptStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !address || !hasPointsHandle || !signerPromise) {
+      setDecryptStatus('Connect your wallet to decrypt points.');
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      const result = await decrypt([pointsHandleValue as string]);
       const decrypted = result[pointsHandleValue as string];
       setDecryptedPoints(decrypted?.toString() ?? null);
       setDecryptStatus('Decryption complete.');
@@ -302,6 +725,249 @@ export function OracleApp() {
     }
   };
 
+  const handleDecryptStreak = async () => {
+    setStreakStatus('');
+    if (!resolvedAddress) {
+      setStreakStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !address || !hasStreakHandle || !signerPromise) {
+      setStreakStatus('Connect your wallet to decrypt your streak.');
+      return;
+    }
+
+    setIsDecryptingStreak(true);
+    try {
+      const result = await decrypt([streakHandle as string]);
+      const decrypted = result[streakHandle as string];
+      setDecryptedStreak(decrypted?.toString() ?? null);
+      setStreakStatus(
+        streakBroken
+          ? `Decryption complete. It resets on your next confirmation unless that is for day ${streakLastDay + 1n}.`
+          : 'Decryption complete.',
+      );
+    } catch (error) {
+      console.error(error);
+      setStreakStatus(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsDecryptingStreak(false);
+    }
+  };
+
+  const handleDecryptAll = async () => {
+    setDecryptStatus('');
+    if (!resolvedAddress) {
+      setDecryptStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !address || !signerPromise) {
+      setDecryptStatus('Connect your wallet and initialize encryption.');
+      return;
+    }
+
+    const hasPrediction =
+      confirmDayValue !== undefined && hasPredictionHandles && !!predictionPriceHandle && !!predictionSecondHandle;
+    const handles = [
+      ...(hasPointsHandle ? [pointsHandleValue as string] : []),
+      ...(hasStreakHandle ? [streakHandle as string] : []),
+      ...(hasPrediction ? [predictionPriceHandle, predictionSecondHandle] : []),
+    ];
+    if (handles.length === 0) {
+      setDecryptStatus('Nothing to decrypt yet.');
+      return;
+    }
+
+    setIsDecrypting(true);
+    try {
+      // Points, the selected streak and the selected prediction share one relayer request.
+      const result = await decrypt(handles);
+      if (hasPointsHandle) {
+        setDecryptedPoints(result[pointsHandleValue as string].toString());
+      }
+      if (hasStreakHandle) {
+        setDecryptedStreak(result[streakHandle as string].toString());
+      }
+      if (hasPrediction) {
+        setDecryptedGuess({
+          asset: confirmAsset,
+          day: confirmDayValue,
+          price: BigInt(result[predictionPriceHandle]),
+          second: BigInt(result[predictionSecondHandle]),
+        });
+      }
+      setDecryptStatus('Decryption complete.');
+    } catch (error) {
+      console.error(error);
+      setDecryptStatus(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleRedeemPoints = async (redeemAll: boolean) => {
+    setRedeemStatus('');
+    setConfirmRedeemAll(false);
+    if (!resolvedAddress) {
+      setRedeemStatus('Invalid contract address.');
+      return;
+    }
+    if (!instance || !address || !hasPointsHandle || !signerPromise) {
+      setRedeemStatus('Connect your wallet and initialize encryption.');
+      return;
+    }
+    let amount: bigint | undefined;
+    if (redeemAll) {
+      // Burning the whole balance cannot be undone, so it takes a second click.
+      if (!confirmRedeemAll) {
+        setConfirmRedeemAll(true);
+        setRedeemStatus('Click Confirm Redeem All to burn your whole points balance.');
+        return;
+      }
+    } else {
+      try {
+        amount = ethers.parseEther(redeemAmount.trim());
+      } catch {
+        amount = undefined;
+      }
+      if (amount === undefined || amount === 0n) {
+        setRedeemStatus('Enter an amount to redeem.');
+        return;
+      }
+    }
+
+    setIsRedeeming(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      let tx;
+      if (amount === undefined) {
+        tx = await contract.requestFullRedemption();
+      } else {
+        const input = instance.createEncryptedInput(resolvedAddress, address);
+        input.add128(amount);
+        const encryptedInput = await input.encrypt();
+        tx = await contract.requestRedemption(encryptedInput.handles[0], encryptedInput.inputProof);
+      }
+
+      setRedeemStatus('Burning points. Waiting for confirmation...');
+      const receipt = await tx.wait();
+      const requested = receipt.logs
+        .map((log: ethers.Log) => contract.interface.parseLog(log))
+        .find((parsed: ethers.LogDescription | null) => parsed?.name === 'RedemptionRequested');
+      if (!requested) {
+        throw new Error('Redemption request not found in receipt');
+      }
+
+      setRedeemStatus('Decrypting redeemed amount...');
+      const amountHandle = requested.args.amount as string;
+      const decryption = await instance.publicDecrypt([amountHandle]);
+      const clearAmount = decryption.clearValues[amountHandle] as bigint;
+
+      const finalizeTx = await contract.finalizeRedemption(
+        requested.args.requestId,
+        clearAmount,
+        decryption.decryptionProof,
+      );
+      setRedeemStatus('Paying out ETH...');
+      await finalizeTx.wait();
+      setRedeemStatus(`Redeemed ${ethers.formatEther(clearAmount)} ETH.`);
+      setRedeemAmount('');
+      setDecryptedPoints(null);
+    } catch (error) {
+      console.error(error);
+      setRedeemStatus(`Redemption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleWithdrawOwed = async () => {
+    setRedeemStatus('');
+    if (!resolvedAddress) {
+      setRedeemStatus('Invalid contract address.');
+      return;
+    }
+    if (!signerPromise) {
+      setRedeemStatus('Connect your wallet first.');
+      return;
+    }
+
+    setIsRedeeming(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      const tx = await contract.withdrawRedemption();
+      setRedeemStatus('Withdrawing outstanding ETH...');
+      await tx.wait();
+      setRedeemStatus('Withdrawal completed.');
+    } catch (error) {
+      console.error(error);
+      setRedeemStatus(`Withdrawal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleSendPoints = async () => {
+    setSendStatus('');
+    const pointsToken = pointsTokenData as string | undefined;
+    if (!pointsToken) {
+      setSendStatus('Points token unavailable.');
+      return;
+    }
+    if (!instance || !address || !signerPromise) {
+      setSendStatus('Connect your wallet and initialize encryption.');
+      return;
+    }
+    if (!isAddress(sendRecipient)) {
+      setSendStatus('Enter a valid recipient address.');
+      return;
+    }
+    let amount: bigint;
+    try {
+      amount = ethers.parseEther(sendAmount);
+    } catch {
+      setSendStatus('Enter a valid amount.');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const input = instance.createEncryptedInput(pointsToken, address);
+      input.add128(amount);
+      const encryptedInput = await input.encrypt();
+
+      const points = new Contract(pointsToken, POINTS_ABI, signer);
+      const tx = await points['confidentialTransfer(address,bytes32,bytes)'](
+        sendRecipient,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+      );
+      setSendStatus('Sending encrypted points...');
+      await tx.wait();
+      setSendStatus('Transfer completed. Amounts above your balance send nothing, so decrypt to check.');
+      setSendAmount('');
+    } catch (error) {
+      console.error(error);
+      setSendStatus(`Transfer failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   const handleRecordPrice = async () => {
     setRecordStatus('');
     if (!resolvedAddress) {
@@ -312,8 +978,9 @@ export function OracleApp() {
       setRecordStatus('Connect your wallet first.');
       return;
     }
-    if (!isNumeric(adminPrice)) {
-      setRecordStatus('Enter a valid integer price.');
+    const priceValue = parsePrice(adminPrice, adminAssetDecimals);
+    if (priceValue === undefined) {
+      setRecordStatus(`Enter a valid price with up to ${adminAssetDecimals} decimals.`);
       return;
     }
 
@@ -325,10 +992,16 @@ export function OracleApp() {
       }
 
       const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
-      const tx = await contract.recordDailyPrice(adminAsset, BigInt(adminPrice));
-      setRecordStatus('Recording price...');
+      const tx = usesReporters
+        ? await contract.reportPrice(adminAsset, priceValue)
+        : await contract.recordDailyPrice(adminAsset, priceValue);
+      setRecordStatus(usesReporters ? 'Submitting report...' : 'Recording price...');
       await tx.wait();
-      setRecordStatus('Price recorded successfully.');
+      setRecordStatus(
+        usesReporters
+          ? 'Report submitted. The median is recorded once the quorum has reported.'
+          : 'Price recorded successfully.',
+      );
       setAdminPrice('');
     } catch (error) {
       console.error(error);
@@ -338,15 +1011,82 @@ export function OracleApp() {
     }
   };
 
-  const [ethPrice, ethRecorded] = (ethPriceData ?? []) as [bigint, boolean];
-  const [btcPrice, btcRecorded] = (btcPriceData ?? []) as [bigint, boolean];
+  const handlePullPrice = async () => {
+    setRecordStatus('');
+    if (!resolvedAddress) {
+      setRecordStatus('Invalid contract address.');
+      return;
+    }
+    if (!signerPromise) {
+      setRecordStatus('Connect your wallet first.');
+      return;
+    }
+
+    setIsRecording(true);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(resolvedAddress, CONTRACT_ABI, signer);
+      const tx = await contract.pullDailyPrice(adminAsset);
+      setRecordStatus('Pulling feed price...');
+      await tx.wait();
+      setRecordStatus('Price recorded from the feed.');
+    } catch (error) {
+      console.error(error);
+      setRecordStatus(`Pull failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
   const predictionExists = predictionData ? (predictionData[4] as boolean) : false;
   const predictionConfirmed = predictionData ? (predictionData[3] as boolean) : false;
   const predictionStake = predictionData ? (predictionData[2] as bigint) : undefined;
+  const predictionRefunded = predictionData ? (predictionData[5] as boolean) : false;
+  const predictionBand = predictionData ? (predictionData[6] as boolean) : false;
+  const revealRequested = revealData ? (revealData[0] as boolean) : false;
+  const predictionRevealed = revealData ? (revealData[1] as boolean) : false;
+  const confirmPriceRecorded = confirmPriceData ? (confirmPriceData[1] as boolean) : false;
+  const refundWindow = refundWindowData as bigint | undefined;
+  const isRefundable =
+    predictionExists &&
+    !predictionRefunded &&
+    !confirmPriceRecorded &&
+    confirmDayValue !== undefined &&
+    currentDay !== undefined &&
+    refundWindow !== undefined &&
+    currentDay > confirmDayValue + refundWindow;
   const predictionPriceHandle = predictionData ? (predictionData[0] as string) : undefined;
   const predictionDirectionHandle = predictionData ? (predictionData[1] as string) : undefined;
+  const predictionUpperHandle = predictionData ? (predictionData[7] as string) : undefined;
+  const predictionSecondHandle = predictionBand ? predictionUpperHandle : predictionDirectionHandle;
+  // An empty slot reads back as zero handles, which the relayer cannot decrypt.
+  const hasPredictionHandles =
+    predictionExists &&
+    !!predictionPriceHandle &&
+    predictionPriceHandle !== ethers.ZeroHash &&
+    !!predictionSecondHandle &&
+    predictionSecondHandle !== ethers.ZeroHash;
+  const confirmDecimals = assets[confirmAsset]?.decimals ?? 0;
+  const shownGuess =
+    decryptedGuess && decryptedGuess.asset === confirmAsset && decryptedGuess.day === confirmDayValue
+      ? decryptedGuess
+      : null;
+  const guessText = !shownGuess
+    ? 'Encrypted'
+    : predictionBand
+      ? `${formatPrice(shownGuess.price, confirmDecimals)} - ${formatPrice(shownGuess.second, confirmDecimals)}`
+      : `${shownGuess.second === 1n ? 'Above' : 'Below'} ${formatPrice(shownGuess.price, confirmDecimals)}`;
   const pointsHandleValue = typeof pointsHandle === 'string' ? pointsHandle : undefined;
   const hasPointsHandle = pointsHandleValue ? pointsHandleValue !== ethers.ZeroHash : false;
+  const owedValue = owedData as bigint | undefined;
+  const streakHandle = streakData ? (streakData[0] as string) : undefined;
+  const streakLastDay = streakData ? (streakData[1] as bigint) : 0n;
+  const hasStreakHandle = streakHandle ? streakHandle !== ethers.ZeroHash : false;
+  const streakBroken = currentDay !== undefined && streakLastDay > 0n && streakLastDay + 1n < currentDay;
 
   return (
     <div className="oracle-page">
@@ -362,10 +1102,6 @@ export function OracleApp() {
             <p className="stat-label">Current UTC Day</p>
             <p className="stat-value">{currentDay?.toString() ?? '--'}</p>
           </div>
-          <div className="stat-card">
-            <p className="stat-label">Next Prediction Day</p>
-            <p className="stat-value">{predictionDay?.toString() ?? '--'}</p>
-          </div>
           <div className="stat-card">
             <p className="stat-label">Relayer Status</p>
             <p className="stat-value">{isZamaLoading ? 'Loading' : zamaError ? 'Unavailable' : 'Ready'}</p>
@@ -376,7 +1112,11 @@ export function OracleApp() {
       <section className="panel contract-panel">
         <div>
           <h3>Contract Address</h3>
-          <p>Use the deployed Sepolia address. Invalid inputs disable reads.</p>
+          <p>
+            {isLocalChain
+              ? 'Use the address from your local Hardhat deployment. Invalid inputs disable reads.'
+              : 'Use the deployed Sepolia address. Invalid inputs disable reads.'}
+          </p>
         </div>
         <div className="contract-input">
           <input
@@ -394,53 +1134,113 @@ export function OracleApp() {
       <section className="panel price-panel">
         <div className="panel-head">
           <h3>Daily Price Ledger</h3>
-          <p>Recorded at UTC 00:00 by the oracle operator.</p>
+          <p>
+            Recorded at UTC 00:00 by the oracle operator. Once a day starts, anyone can reveal how much ETH was staked
+            on the price going up or down.
+          </p>
         </div>
         <div className="price-grid">
-          <div className="price-card">
-            <div className="price-heading">
-              <span>{ASSETS[0].symbol}</span>
-              <span className="price-day">Day {ethLatestDayValue?.toString() ?? '--'}</span>
-            </div>
-            <p className="price-value">{ethRecorded ? ethPrice?.toString() : 'Pending'}</p>
-            <p className="price-note">{ethRecorded ? 'Price recorded' : 'Waiting for update'}</p>
-          </div>
-          <div className="price-card">
-            <div className="price-heading">
-              <span>{ASSETS[1].symbol}</span>
-              <span className="price-day">Day {btcLatestDayValue?.toString() ?? '--'}</span>
-            </div>
-            <p className="price-value">{btcRecorded ? btcPrice?.toString() : 'Pending'}</p>
-            <p className="price-note">{btcRecorded ? 'Price recorded' : 'Waiting for update'}</p>
-          </div>
+          {assets.map((asset, index) => {
+            const [price, recorded] = (latestPriceResults?.[index]?.result ?? []) as [bigint?, boolean?];
+            const [, sentimentRevealed, , , upStake, downStake] = (sentimentResults?.[index]?.result ?? []) as [
+              boolean?,
+              boolean?,
+              string?,
+              string?,
+              bigint?,
+              bigint?,
+            ];
+            const day = latestDays[index];
+            const totalStake = (upStake ?? 0n) + (downStake ?? 0n);
+            return (
+              <div className="price-card" key={asset.id}>
+                <div className="price-heading">
+                  <span>{asset.symbol}</span>
+                  <span className="price-day">Day {latestDays[index]?.toString() ?? '--'}</span>
+                </div>
+                <p className="price-value">
+                  {recorded && price !== undefined ? formatPrice(price, asset.decimals) : 'Pending'}
+                </p>
+                <p className="price-note">
+                  {recorded ? 'Price recorded' : 'Waiting for update'}
+                  {asset.enabled ? '' : ' · Disabled'}
+                </p>
+                {recorded && day !== undefined && (
+                  <div className="price-sentiment">
+                    {sentimentRevealed ? (
+                      <span>
+                        {totalStake > 0n
+                          ? `${((upStake ?? 0n) * 100n) / totalStake}% of ${ethers.formatEther(totalStake)} ETH up`
+                          : 'No ETH stakes on this day'}
+                      </span>
+                    ) : (
+                      <button
+                        className="secondary-button"
+                        onClick={() => handleRevealSentiment(asset.id, day)}
+                        disabled={sentimentBusyAsset !== null}
+                      >
+                        {sentimentBusyAsset === asset.id ? 'Revealing...' : 'Reveal Sentiment'}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
+        <p className="form-status">{sentimentStatus}</p>
       </section>
 
       <section className="panel prediction-panel">
         <div className="panel-head">
           <h3>Place Prediction</h3>
-          <p>Encrypt your predicted price and direction. Stakes are in ETH.</p>
+          <p>
+            Encrypt your predicted price and direction, or a price band. Bands within 1% of the price pay 4x, 2.5% pay
+            3x and 5% pay 2x. Targeting a later day adds a horizon bonus, as far as the bonus reserve covers it. Stakes
+            are in ETH.
+          </p>
         </div>
         <div className="form-grid">
           <label>
             Asset
             <select value={selectedAsset} onChange={(event) => setSelectedAsset(Number(event.target.value))}>
-              {ASSETS.map((asset) => (
+              {activeAssets.map((asset) => (
                 <option key={asset.id} value={asset.id}>
-                  {asset.symbol} - {asset.name}
+                  {asset.symbol}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Prediction Day
+            <select value={predictionHorizon} onChange={(event) => setPredictionHorizon(event.target.value)}>
+              {horizonOptions.map((option) => (
+                <option key={option.horizon.toString()} value={option.horizon.toString()}>
+                  {currentDay !== undefined ? `Day ${currentDay + option.horizon}` : '--'} ({option.label})
                 </option>
               ))}
             </select>
           </label>
           <label>
-            Predicted Price (integer)
+            {predictionDirection === 'band' ? 'Band Low (USD)' : 'Predicted Price (USD)'}
             <input
               type="text"
               value={predictionPrice}
               onChange={(event) => setPredictionPrice(event.target.value)}
-              placeholder="e.g. 1920"
+              placeholder={selectedAssetDecimals > 0 ? 'e.g. 3521.47' : 'e.g. 3521'}
             />
           </label>
+          {predictionDirection === 'band' && (
+            <label>
+              Band High (USD)
+              <input
+                type="text"
+                value={predictionUpper}
+                onChange={(event) => setPredictionUpper(event.target.value)}
+                placeholder={selectedAssetDecimals > 0 ? 'e.g. 3560.00' : 'e.g. 3560'}
+              />
+            </label>
+          )}
           <label>
             Direction
             <select value={predictionDirection} onChange={(event) => setPredictionDirection(event.target.value)}>
@@ -476,13 +1276,13 @@ export function OracleApp() {
       <section className="panel confirmation-panel">
         <div className="panel-head">
           <h3>Confirm & Verify</h3>
-          <p>Confirm tomorrow to unlock encrypted points if your direction is correct.</p>
+          <p>Confirm once the target day is priced to unlock encrypted points if your direction is correct.</p>
         </div>
         <div className="form-grid">
           <label>
             Asset
             <select value={confirmAsset} onChange={(event) => setConfirmAsset(Number(event.target.value))}>
-              {ASSETS.map((asset) => (
+              {assets.map((asset) => (
                 <option key={asset.id} value={asset.id}>
                   {asset.symbol}
                 </option>
@@ -500,8 +1300,19 @@ export function OracleApp() {
           <div className="prediction-preview">
             <p className="preview-title">Prediction Snapshot</p>
             <p>{predictionExists ? 'Stored' : 'Missing'}</p>
-            <p>{predictionConfirmed ? 'Already confirmed' : 'Not confirmed'}</p>
+            <p>
+              {predictionRefunded
+                ? 'Refunded'
+                : isRefundable
+                  ? 'Refundable'
+                  : predictionRevealed
+                    ? 'Confirmed and revealed'
+                    : predictionConfirmed
+                      ? 'Already confirmed'
+                      : 'Not confirmed'}
+            </p>
             <p>Stake: {predictionStake !== undefined ? ethers.formatEther(predictionStake) : '--'} ETH</p>
+            <p>Guess: {guessText}</p>
           </div>
           <div className="prediction-preview">
             <p className="preview-title">Encrypted Handles</p>
@@ -517,14 +1328,41 @@ export function OracleApp() {
           >
             {isConfirming ? 'Confirming...' : 'Confirm Prediction'}
           </button>
+          <button className="secondary-button" onClick={handleConfirmAll} disabled={isConfirming || !address}>
+            Confirm All Pending
+          </button>
+          {predictionExists && (
+            <button
+              className="secondary-button"
+              onClick={handleDecryptPrediction}
+              disabled={isDecryptingPrediction || !instance || isZamaLoading}
+            >
+              {isDecryptingPrediction ? 'Decrypting...' : 'Decrypt Prediction'}
+            </button>
+          )}
+          {isRefundable && (
+            <button className="secondary-button" onClick={handleClaimRefund} disabled={isConfirming}>
+              Claim Refund
+            </button>
+          )}
+          {predictionConfirmed && !predictionRevealed && (
+            <button className="secondary-button" onClick={handleRevealPrediction} disabled={isConfirming}>
+              Reveal Publicly
+            </button>
+          )}
           <p className="form-status">{confirmStatus}</p>
         </div>
       </section>
 
+      <PredictionHistory contractAddress={resolvedAddress} assets={assets} connectedAddress={address} />
+
       <section className="panel points-panel">
         <div className="panel-head">
           <h3>Your Encrypted Points</h3>
-          <p>Points are encrypted on-chain. Decrypt with your wallet.</p>
+          <p>
+            Points are an encrypted token. Decrypt them with your wallet, send them to another address or redeem them
+            for ETH.
+          </p>
         </div>
         <div className="points-grid">
           <div>
@@ -546,49 +1384,183 @@ export function OracleApp() {
           >
             {isDecrypting ? 'Decrypting...' : 'Decrypt Points'}
           </button>
+          <button className="secondary-button" onClick={handleDecryptAll} disabled={isDecrypting || !address}>
+            Decrypt All
+          </button>
           <p className="form-status">{decryptStatus}</p>
         </div>
-      </section>
-
-      <section className={`panel admin-panel ${isOwner ? '' : 'disabled-panel'}`}>
-        <div className="panel-head">
-          <h3>Oracle Operator</h3>
-          <p>Record the daily price at UTC 00:00. Visible to the owner only.</p>
-        </div>
         <div className="form-grid">
           <label>
-            Asset
-            <select value={adminAsset} onChange={(event) => setAdminAsset(Number(event.target.value))}>
-              {ASSETS.map((asset) => (
+            Streak Asset
+            <select
+              value={streakAsset}
+              onChange={(event) => {
+                setStreakAsset(Number(event.target.value));
+                setDecryptedStreak(null);
+                setStreakStatus('');
+              }}
+            >
+              {assets.map((asset) => (
                 <option key={asset.id} value={asset.id}>
                   {asset.symbol}
                 </option>
               ))}
             </select>
           </label>
+          <div>
+            <p className="points-label">Win Streak</p>
+            <p className="points-value">{hasStreakHandle ? (decryptedStreak ?? '***') : '0'}</p>
+          </div>
+        </div>
+        <div className="form-actions">
+          <button
+            className="secondary-button"
+            onClick={handleDecryptStreak}
+            disabled={isDecryptingStreak || !address || !hasStreakHandle}
+          >
+            {isDecryptingStreak ? 'Decrypting...' : 'Decrypt Streak'}
+          </button>
+          <p className="form-status">{streakStatus}</p>
+        </div>
+        <div className="form-grid">
           <label>
-            Price (integer)
+            Redeem Amount (ETH)
             <input
               type="text"
-              value={adminPrice}
-              onChange={(event) => setAdminPrice(event.target.value)}
-              placeholder="e.g. 2015"
+              value={redeemAmount}
+              onChange={(event) => setRedeemAmount(event.target.value)}
+              placeholder="e.g. 0.05"
             />
           </label>
-          <div className="admin-meta">
-            <p className="points-label">Owner</p>
-            <p className="points-handle">{ownerAddress ?? '--'}</p>
+          <div>
+            <p className="points-label">Owed To You</p>
+            <p className="points-handle">{owedValue !== undefined ? `${ethers.formatEther(owedValue)} ETH` : '--'}</p>
           </div>
         </div>
         <div className="form-actions">
           <button
             className="primary-button"
-            onClick={handleRecordPrice}
-            disabled={isRecording || !isOwner}
+            onClick={() => handleRedeemPoints(false)}
+            disabled={isRedeeming || !address || !hasPointsHandle}
+          >
+            {isRedeeming ? 'Redeeming...' : 'Redeem'}
+          </button>
+          <button
+            className="secondary-button"
+            onClick={() => handleRedeemPoints(true)}
+            disabled={isRedeeming || !address || !hasPointsHandle}
           >
-            {isRecording ? 'Recording...' : 'Record Daily Price'}
+            {confirmRedeemAll ? 'Confirm Redeem All' : 'Redeem All'}
           </button>
-          <p className="form-status">{isOwner ? recordStatus : 'Connect the owner wallet to enable.'}</p>
+          {owedValue !== undefined && owedValue > 0n && (
+            <button className="secondary-button" onClick={handleWithdrawOwed} disabled={isRedeeming}>
+              Withdraw Owed ETH
+            </button>
+          )}
+          <p className="form-status">{redeemStatus}</p>
+        </div>
+        <div className="form-grid">
+          <label>
+            Send To
+            <input
+              type="text"
+              value={sendRecipient}
+              onChange={(event) => setSendRecipient(event.target.value.trim())}
+              placeholder="0x..."
+            />
+          </label>
+          <label>
+            Send Amount (ETH)
+            <input
+              type="text"
+              value={sendAmount}
+              onChange={(event) => setSendAmount(event.target.value)}
+              placeholder="0.01"
+            />
+          </label>
+        </div>
+        <div className="form-actions">
+          <button
+            className="secondary-button"
+            onClick={handleSendPoints}
+            disabled={isSending || !address || !hasPointsHandle}
+          >
+            {isSending ? 'Sending...' : 'Send Points'}
+          </button>
+          <p className="form-status">{sendStatus}</p>
+        </div>
+      </section>
+
+      <PublicProfile contractAddress={resolvedAddress} assets={assets} connectedAddress={address} />
+
+      <section className={`panel admin-panel ${canRecord || hasPriceFeed ? '' : 'disabled-panel'}`}>
+        <div className="panel-head">
+          <h3>Oracle Operator</h3>
+          <p>
+            {hasPriceFeed
+              ? "This asset settles from its Chainlink feed. Anyone can pull today's price."
+              : usesReporters
+                ? `Report the daily price at UTC 00:00. The median is recorded after ${quorum.toString()} reports.`
+                : 'Record the daily price at UTC 00:00. Visible to reporters only.'}
+          </p>
+        </div>
+        <div className="form-grid">
+          <div className="admin-meta">
+            <p className="points-label">Your Roles</p>
+            <p className="points-handle">{callerRoles.length > 0 ? callerRoles.join(', ') : 'None'}</p>
+          </div>
+          <label>
+            Asset
+            <select value={adminAsset} onChange={(event) => setAdminAsset(Number(event.target.value))}>
+              {assets.map((asset) => (
+                <option key={asset.id} value={asset.id}>
+                  {asset.symbol}
+                </option>
+              ))}
+            </select>
+          </label>
+          {hasPriceFeed ? (
+            <div className="admin-meta">
+              <p className="points-label">Price Feed</p>
+              <p className="points-handle">{priceFeed}</p>
+            </div>
+          ) : (
+            <>
+              <label>
+                Price (USD)
+                <input
+                  type="text"
+                  value={adminPrice}
+                  onChange={(event) => setAdminPrice(event.target.value)}
+                  placeholder={adminAssetDecimals > 0 ? 'e.g. 2015.25' : 'e.g. 2015'}
+                />
+              </label>
+              <div className="admin-meta">
+                <p className="points-label">Reporter Quorum</p>
+                <p className="points-handle">{usesReporters ? quorum.toString() : 'None'}</p>
+              </div>
+            </>
+          )}
+        </div>
+        <div className="form-actions">
+          {hasPriceFeed ? (
+            <button className="primary-button" onClick={handlePullPrice} disabled={isRecording}>
+              {isRecording ? 'Pulling...' : 'Pull Feed Price'}
+            </button>
+          ) : (
+            <button
+              className="primary-button"
+              onClick={handleRecordPrice}
+              disabled={isRecording || !canRecord}
+            >
+              {isRecording ? 'Recording...' : usesReporters ? 'Report Daily Price' : 'Record Daily Price'}
+            </button>
+          )}
+          <p className="form-status">
+            {canRecord || hasPriceFeed
+              ? recordStatus
+              : 'Connect a reporter wallet to enable.'}
+          </p>
         </div>
       </section>
     </div>
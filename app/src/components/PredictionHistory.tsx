@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Contract, ethers } from 'ethers';
+import { usePublicClient } from 'wagmi';
+import { getAbiItem } from 'viem';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { getLogsInPages } from '../utils/logs';
+
+type HistoryAsset = {
+  symbol: string;
+  decimals: number;
+};
+
+type HistoryStatus = 'pending' | 'awaiting' | 'refundable' | 'confirmable' | 'closed' | 'confirmed' | 'refunded';
+
+type HistoryEntry = {
+  asset: number;
+  day: bigint;
+  stake: bigint;
+  price?: bigint;
+  status: HistoryStatus;
+};
+
+type PredictionHistoryProps = {
+  contractAddress?: `0x${string}`;
+  assets: HistoryAsset[];
+  connectedAddress?: `0x${string}`;
+};
+
+const placedEvent = getAbiItem({ abi: CONTRACT_ABI, name: 'PredictionPlaced' });
+
+const statusLabels: Record<HistoryStatus, string> = {
+  pending: 'Pending',
+  awaiting: 'Awaiting Price',
+  refundable: 'Refundable',
+  confirmable: 'Confirmable',
+  closed: 'Settlement Closed',
+  confirmed: 'Confirmed',
+  refunded: 'Refunded',
+};
+
+// Row status from the prediction's flags and the reason `getConfirmationBlocker` gives, so rows only offer
+// confirmation when the contract would accept it.
+function entryStatus(
+  confirmed: boolean,
+  refunded: boolean,
+  blocker: string,
+  day: bigint,
+  currentDay: bigint,
+  refundWindow: bigint,
+): HistoryStatus {
+  if (confirmed) {
+    return 'confirmed';
+  }
+  if (refunded) {
+    return 'refunded';
+  }
+  switch (blocker) {
+    case '':
+      return 'confirmable';
+    case 'Too early':
+      return 'pending';
+    case 'Settlement closed':
+      return 'closed';
+    default:
+      return currentDay > day + refundWindow ? 'refundable' : 'awaiting';
+  }
+}
+
+function formatPrice(value: bigint, decimals: number) {
+  return ethers.formatUnits(value, decimals).replace(/\.0$/, '');
+}
+
+export function PredictionHistory({ contractAddress, assets, connectedAddress }: PredictionHistoryProps) {
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [confirmingKey, setConfirmingKey] = useState<string | null>(null);
+  const [historyStatus, setHistoryStatus] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    if (!contractAddress || !publicClient || !connectedAddress) {
+      setEntries(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setHistoryStatus('');
+    try {
+      // The prediction's own flags say whether it was confirmed, so only placements need a log scan.
+      const [placed, currentDay, refundWindow] = await Promise.all([
+        getLogsInPages(publicClient, contractAddress, (fromBlock, toBlock) =>
+          publicClient.getLogs({
+            address: contractAddress,
+            event: placedEvent,
+            args: { user: connectedAddress },
+            fromBlock,
+            toBlock,
+          }),
+        ),
+        publicClient.readContract({ address: contractAddress, abi: CONTRACT_ABI, functionName: 'currentDay' }),
+        publicClient.readContract({ address: contractAddress, abi: CONTRACT_ABI, functionName: 'getRefundWindow' }),
+      ]);
+
+      const rows = await Promise.all(
+        placed.map(async (log): Promise<HistoryEntry> => {
+          const asset = Number(log.args.asset);
+          const day = log.args.day as bigint;
+          const [[price, recorded], prediction, blocker] = await Promise.all([
+            publicClient.readContract({
+              address: contractAddress,
+              abi: CONTRACT_ABI,
+              functionName: 'getPrice',
+              args: [asset, day],
+            }),
+            publicClient.readContract({
+              address: contractAddress,
+              abi: CONTRACT_ABI,
+              functionName: 'getPrediction',
+              args: [connectedAddress, asset, day],
+            }),
+            publicClient.readContract({
+              address: contractAddress,
+              abi: CONTRACT_ABI,
+              functionName: 'getConfirmationBlocker',
+              args: [connectedAddress, asset, day],
+            }),
+          ]);
+          const status = entryStatus(prediction[3], prediction[5], blocker, day, currentDay, refundWindow);
+          return { asset, day, stake: log.args.stake as bigint, price: recorded ? price : undefined, status };
+        }),
+      );
+      setEntries(rows.sort((a, b) => (a.day === b.day ? a.asset - b.asset : a.day > b.day ? -1 : 1)));
+    } catch (error) {
+      console.error(error);
+      setHistoryStatus(`Loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contractAddress, publicClient, connectedAddress]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleConfirm = async (entry: HistoryEntry) => {
+    setHistoryStatus('');
+    if (!contractAddress) {
+      setHistoryStatus('Invalid contract address.');
+      return;
+    }
+    if (!signerPromise) {
+      setHistoryStatus('Connect your wallet first.');
+      return;
+    }
+
+    const symbol = assets[entry.asset]?.symbol ?? `Asset ${entry.asset}`;
+    setConfirmingKey(`${entry.asset}-${entry.day}`);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+      const tx = await contract.confirmPrediction(entry.asset, entry.day);
+      setHistoryStatus('Confirmation sent. Waiting for finality...');
+      await tx.wait();
+      setHistoryStatus(`Confirmed ${symbol} day ${entry.day}. Check your points.`);
+      await loadHistory();
+    } catch (error) {
+      console.error(error);
+      setHistoryStatus(`Confirmation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setConfirmingKey(null);
+    }
+  };
+
+  const handleRefund = async (entry: HistoryEntry) => {
+    setHistoryStatus('');
+    if (!contractAddress) {
+      setHistoryStatus('Invalid contract address.');
+      return;
+    }
+    if (!signerPromise) {
+      setHistoryStatus('Connect your wallet first.');
+      return;
+    }
+
+    const symbol = assets[entry.asset]?.symbol ?? `Asset ${entry.asset}`;
+    setConfirmingKey(`${entry.asset}-${entry.day}`);
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const contract = new Contract(contractAddress, CONTRACT_ABI, signer);
+      const tx = await contract.claimRefund(entry.asset, entry.day);
+      setHistoryStatus('Refund sent. Waiting for finality...');
+      await tx.wait();
+      setHistoryStatus(`Refunded the stake of ${symbol} day ${entry.day}.`);
+      await loadHistory();
+    } catch (error) {
+      console.error(error);
+      setHistoryStatus(`Refund failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setConfirmingKey(null);
+    }
+  };
+
+  return (
+    <section className="panel history-panel">
+      <div className="panel-head">
+        <h3>Your Predictions</h3>
+        <p>
+          Every prediction placed from this wallet, newest day first. Priced days can be confirmed and days that never
+          got a price refunded from the list.
+        </p>
+      </div>
+      <div className="form-actions">
+        <button className="secondary-button" onClick={loadHistory} disabled={isLoading || !connectedAddress}>
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+        <p className="form-status">
+          {connectedAddress
+            ? historyStatus || (entries?.length === 0 ? 'No predictions placed from this wallet yet.' : '')
+            : 'Connect your wallet to see your predictions.'}
+        </p>
+      </div>
+      {entries && entries.length > 0 && (
+        <div className="profile-list">
+          {entries.map((entry) => {
+            const asset = assets[entry.asset];
+            const key = `${entry.asset}-${entry.day}`;
+            return (
+              <div className="history-row" key={key}>
+                <span>{asset?.symbol ?? `Asset ${entry.asset}`}</span>
+                <span>Day {entry.day.toString()}</span>
+                <span>{entry.stake > 0n ? `${ethers.formatEther(entry.stake)} ETH` : 'Encrypted stake'}</span>
+                <span>{entry.price !== undefined ? formatPrice(entry.price, asset?.decimals ?? 0) : '--'}</span>
+                <span className={`history-status ${entry.status}`}>{statusLabels[entry.status]}</span>
+                {entry.status === 'confirmable' ? (
+                  <button
+                    className="secondary-button"
+                    onClick={() => handleConfirm(entry)}
+                    disabled={confirmingKey !== null}
+                  >
+                    {confirmingKey === key ? 'Confirming...' : 'Confirm'}
+                  </button>
+                ) : entry.status === 'refundable' ? (
+                  <button
+                    className="secondary-button"
+                    onClick={() => handleRefund(entry)}
+                    disabled={confirmingKey !== null}
+                  >
+                    {confirmingKey === key ? 'Refunding...' : 'Refund'}
+                  </button>
+                ) : (
+                  <span />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { usePublicClient } from 'wagmi';
+import { getAbiItem, isAddress } from 'viem';
+
+import { CONTRACT_ABI } from '../config/contracts';
+import { getLogsInPages } from '../utils/logs';
+
+type ProfileAsset = {
+  symbol: string;
+  decimals: number;
+};
+
+type RevealedPrediction = {
+  asset: number;
+  day: bigint;
+  price: bigint;
+  direction: number;
+  upper: bigint;
+  band: boolean;
+  correct: boolean;
+};
+
+type PublicProfileProps = {
+  contractAddress?: `0x${string}`;
+  assets: ProfileAsset[];
+  connectedAddress?: string;
+};
+
+const revealedEvent = getAbiItem({ abi: CONTRACT_ABI, name: 'PredictionRevealed' });
+
+function formatPrice(value: bigint, decimals: number) {
+  return ethers.formatUnits(value, decimals).replace(/\.0$/, '');
+}
+
+export function PublicProfile({ contractAddress, assets, connectedAddress }: PublicProfileProps) {
+  const publicClient = usePublicClient();
+  const [profileAddress, setProfileAddress] = useState('');
+  const [revealed, setRevealed] = useState<RevealedPrediction[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [profileStatus, setProfileStatus] = useState('');
+
+  const handleLoadProfile = async () => {
+    setProfileStatus('');
+    if (!contractAddress || !publicClient) {
+      setProfileStatus('Invalid contract address.');
+      return;
+    }
+    const user = profileAddress.trim() || connectedAddress;
+    if (!user || !isAddress(user)) {
+      setProfileStatus('Enter a valid address.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const logs = await getLogsInPages(publicClient, contractAddress, (fromBlock, toBlock) =>
+        publicClient.getLogs({ address: contractAddress, event: revealedEvent, args: { user }, fromBlock, toBlock }),
+      );
+      const entries = logs
+        .map((log) => ({
+          asset: Number(log.args.asset),
+          day: log.args.day as bigint,
+          price: log.args.price as bigint,
+          direction: Number(log.args.direction),
+          upper: log.args.upper as bigint,
+          band: log.args.band as boolean,
+          correct: log.args.correct as boolean,
+        }))
+        .sort((a, b) => (a.day === b.day ? a.asset - b.asset : a.day > b.day ? -1 : 1));
+      setRevealed(entries);
+      setProfileStatus(entries.length === 0 ? 'This address has not revealed any predictions yet.' : '');
+    } catch (error) {
+      console.error(error);
+      setProfileStatus(`Loading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const correctCount = revealed?.filter((entry) => entry.correct).length ?? 0;
+
+  return (
+    <section className="panel profile-panel">
+      <div className="panel-head">
+        <h3>Public Profile</h3>
+        <p>Predictions their owners chose to reveal after settlement, with the recorded outcome.</p>
+      </div>
+      <div className="form-grid">
+        <label>
+          Profile Address
+          <input
+            type="text"
+            value={profileAddress}
+            onChange={(event) => setProfileAddress(event.target.value.trim())}
+            placeholder={connectedAddress ?? '0x...'}
+          />
+        </label>
+        <div>
+          <p className="points-label">Track Record</p>
+          <p className="points-value">{revealed ? `${correctCount} / ${revealed.length} correct` : '--'}</p>
+        </div>
+      </div>
+      <div className="form-actions">
+        <button className="secondary-button" onClick={handleLoadProfile} disabled={isLoading}>
+          {isLoading ? 'Loading...' : 'Load Profile'}
+        </button>
+        <p className="form-status">{profileStatus}</p>
+      </div>
+      {revealed && revealed.length > 0 && (
+        <div className="profile-list">
+          {revealed.map((entry) => {
+            const asset = assets[entry.asset];
+            const decimals = asset?.decimals ?? 0;
+            const guess = entry.band
+              ? `Inside ${formatPrice(entry.price, decimals)} - ${formatPrice(entry.upper, decimals)}`
+              : `${entry.direction === 1 ? 'Above' : 'Below'} ${formatPrice(entry.price, decimals)}`;
+            return (
+              <div className="profile-row" key={`${entry.asset}-${entry.day}`}>
+                <span>{asset?.symbol ?? `Asset ${entry.asset}`}</span>
+                <span>Day {entry.day.toString()}</span>
+                <span>{guess}</span>
+                <span className={`profile-outcome ${entry.correct ? 'ok' : 'bad'}`}>
+                  {entry.correct ? 'Correct' : 'Wrong'}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+// `npx hardhat deploy --network localhost` writes localContract.generated.ts, which git ignores. Until it exists the
+// zero address stands in and the app asks for a contract address instead.
+type LocalDeployment = {
+  LOCAL_CONTRACT_ADDRESS: string;
+  LOCAL_DEPLOY_BLOCK: bigint;
+};
+
+const generated: LocalDeployment | undefined = import.meta.glob<LocalDeployment>('./localContract.generated.ts', {
+  eager: true,
+})['./localContract.generated.ts'];
+
+export const LOCAL_CONTRACT_ADDRESS = generated?.LOCAL_CONTRACT_ADDRESS ?? '0x0000000000000000000000000000000000000000';
+export const LOCAL_DEPLOY_BLOCK = generated?.LOCAL_DEPLOY_BLOCK ?? 0n;
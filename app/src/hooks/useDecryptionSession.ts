@@ -0,0 +1,120 @@
+import { useCallback, useRef } from 'react';
+import { useAccount } from 'wagmi';
+
+import { useEthersSigner } from './useEthersSigner';
+import { useZamaInstance } from './useZamaInstance';
+
+const DURATION_DAYS = '5';
+// Renew a minute early so a request never reaches the relayer with a signature that is about to expire.
+const EXPIRY_MARGIN_SECONDS = 60;
+
+export type DecryptedValue = bigint | boolean | string;
+
+type DecryptionSession = {
+  key: string;
+  instance: unknown;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimeStamp: string;
+  expiresAt: number;
+  values: Map<string, DecryptedValue>;
+};
+
+// One keypair and EIP-712 signature per account and contract, kept in memory while the signature is valid. Handles
+// decrypted in the session are cached, the rest go to the relayer together in one `userDecrypt` call.
+export function useDecryptionSession(contractAddress?: `0x${string}`) {
+  const { address } = useAccount();
+  const { instance, isLoading, error } = useZamaInstance();
+  const signerPromise = useEthersSigner();
+  const sessionRef = useRef<DecryptionSession | null>(null);
+  const pendingRef = useRef<{ key: string; session: Promise<DecryptionSession> } | null>(null);
+
+  const openSession = useCallback(
+    async (key: string, contract: `0x${string}`): Promise<DecryptionSession> => {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Signer unavailable');
+      }
+
+      const keypair = instance.generateKeypair();
+      const startTimeStamp = Math.floor(Date.now() / 1000);
+      const eip712 = instance.createEIP712(keypair.publicKey, [contract], startTimeStamp.toString(), DURATION_DAYS);
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message,
+      );
+
+      return {
+        key,
+        instance,
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature: signature.replace('0x', ''),
+        startTimeStamp: startTimeStamp.toString(),
+        expiresAt: startTimeStamp + Number(DURATION_DAYS) * 24 * 60 * 60,
+        values: new Map(),
+      };
+    },
+    [instance, signerPromise],
+  );
+
+  const getSession = useCallback(
+    async (user: string, contract: `0x${string}`) => {
+      const key = `${user.toLowerCase()}-${contract.toLowerCase()}`;
+      const now = Math.floor(Date.now() / 1000);
+      const current = sessionRef.current;
+      const isValid =
+        current?.key === key && current.instance === instance && current.expiresAt - EXPIRY_MARGIN_SECONDS > now;
+      if (current && isValid) {
+        return current;
+      }
+
+      // Concurrent requests share one signature prompt.
+      if (pendingRef.current?.key !== key) {
+        pendingRef.current = { key, session: openSession(key, contract) };
+      }
+      const pending = pendingRef.current;
+      try {
+        const session = await pending.session;
+        sessionRef.current = session;
+        return session;
+      } finally {
+        if (pendingRef.current === pending) {
+          pendingRef.current = null;
+        }
+      }
+    },
+    [instance, openSession],
+  );
+
+  const decrypt = useCallback(
+    async (handles: string[]): Promise<Record<string, DecryptedValue>> => {
+      if (!instance || !address || !contractAddress) {
+        throw new Error('Connect your wallet and initialize encryption');
+      }
+
+      const session = await getSession(address, contractAddress);
+      const missing = [...new Set(handles)].filter((handle) => !session.values.has(handle));
+      if (missing.length > 0) {
+        const result = await instance.userDecrypt(
+          missing.map((handle) => ({ handle, contractAddress })),
+          session.privateKey,
+          session.publicKey,
+          session.signature,
+          [contractAddress],
+          address,
+          session.startTimeStamp,
+          DURATION_DAYS,
+        );
+        missing.forEach((handle) => session.values.set(handle, result[handle]));
+      }
+
+      return Object.fromEntries(handles.map((handle) => [handle, session.values.get(handle) as DecryptedValue]));
+    },
+    [instance, address, contractAddress, getSession],
+  );
+
+  return { instance, isLoading, error, decrypt };
+}
@@ -1,7 +1,43 @@
 import { useState, useEffect } from 'react';
+import { useChainId } from 'wagmi';
+import { hardhat } from 'wagmi/chains';
+import { JsonRpcProvider } from 'ethers';
 import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
 
+// The Hardhat node runs the FHEVM mock: it answers the relayer requests itself, so a mock instance talks to it
+// directly instead of going through the Zama relayer.
+async function createLocalInstance() {
+  const { MockFhevmInstance, contracts, relayer } = await import('@fhevm/mock-utils');
+  const provider = new JsonRpcProvider(hardhat.rpcUrls.default.http[0]);
+  const metadata = await relayer.requestRelayerMetadata(provider);
+
+  const kmsVerifier = await contracts.KMSVerifier.create(provider, metadata.KMSVerifierAddress as `0x${string}`);
+  const inputVerifier = await contracts.InputVerifier.create(
+    provider,
+    metadata.InputVerifierAddress as `0x${string}`,
+  );
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress as `0x${string}`,
+      kmsContractAddress: kmsVerifier.address,
+      inputVerifierContractAddress: inputVerifier.address,
+      verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+      verifyingContractAddressInputVerification: inputVerifier.gatewayInputVerificationAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+    },
+    {
+      inputVerifierProperties: inputVerifier.inputVerifierProperties,
+      kmsVerifierProperties: kmsVerifier.kmsVerifierProperties,
+    },
+  );
+}
+
 export function useZamaInstance() {
+  const chainId = useChainId();
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +49,16 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        let zamaInstance;
+        if (chainId === hardhat.id) {
+          zamaInstance = await createLocalInstance();
+        } else {
+          await initSDK()
+
+          zamaInstance = await createInstance(SepoliaConfig);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -37,7 +80,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [chainId]);
 
   return { instance, isLoading, error };
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import type { PublicClient } from 'viem';
+
+import {
+  CONTRACT_ADDRESS,
+  CONTRACT_DEPLOY_BLOCK,
+  LOCAL_CONTRACT_ADDRESS,
+  LOCAL_DEPLOY_BLOCK,
+} from '../config/contracts';
+
+// Public RPCs cap how many blocks one eth_getLogs call may span; 10,000 is within the common limits.
+const LOG_PAGE_SIZE = 10_000n;
+
+// Deployment block of the configured contracts. Any other address entered in the app is scanned from genesis.
+function deploymentBlock(address: `0x${string}`) {
+  if (address.toLowerCase() === CONTRACT_ADDRESS.toLowerCase()) {
+    return CONTRACT_DEPLOY_BLOCK;
+  }
+  if (address.toLowerCase() === LOCAL_CONTRACT_ADDRESS.toLowerCase()) {
+    return LOCAL_DEPLOY_BLOCK;
+  }
+  return 0n;
+}
+
+// Runs `fetchPage` over every block range from the contract's deployment to the latest block and joins the results.
+export async function getLogsInPages<T>(
+  client: PublicClient,
+  address: `0x${string}`,
+  fetchPage: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+): Promise<T[]> {
+  const latest = await client.getBlockNumber();
+  const logs: T[] = [];
+  for (let fromBlock = deploymentBlock(address); fromBlock <= latest;) {
+    const toBlock = fromBlock + LOG_PAGE_SIZE - 1n < latest ? fromBlock + LOG_PAGE_SIZE - 1n : latest;
+    logs.push(...(await fetchPage(fromBlock, toBlock)));
+    fromBlock = toBlock + 1n;
+  }
+  return logs;
+}
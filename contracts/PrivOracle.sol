@@ -1,150 +1,1001 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, ebool, euint8, euint64, euint128, externalEuint8, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    ebool,
+    euint8,
+    euint32,
+    euint64,
+    euint128,
+    externalEuint8,
+    externalEuint64,
+    externalEuint128
+} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {OracleTokenStakes} from "./base/OracleTokenStakes.sol";
+import {PredictionReveals} from "./libraries/PredictionReveals.sol";
+import {PredictionScoring} from "./libraries/PredictionScoring.sol";
+import {CrowdSentiment} from "./libraries/CrowdSentiment.sol";
+import {PointRedemptions} from "./libraries/PointRedemptions.sol";
+import {PoolSettlement} from "./libraries/PoolSettlement.sol";
+import {PrivPoints} from "./PrivPoints.sol";
 
 /// @title PrivOracle
-/// @notice Encrypted price prediction game for ETH and BTC with daily price updates.
-contract PrivOracle is ZamaEthereumConfig {
-    enum Asset {
-        ETH,
-        BTC
-    }
-
+/// @author PrivOracle
+/// @notice Encrypted price prediction game for owner-registered assets with daily price updates.
+/// @dev Access control, prices, settings and token stakes live in the abstract contracts under `base/`.
+contract PrivOracle is ZamaEthereumConfig, OracleTokenStakes {
     struct Prediction {
         euint64 price;
         euint8 direction;
+        euint64 upper;
+        ebool outcome;
+        euint64 encryptedStake;
         uint256 stake;
+        uint256 horizon;
+        // Share of the stake a correct prediction earns, including the horizon bonus set aside for it at placement.
+        uint256 rewardBps;
+        // ETH taken from the bonus reserve to back the horizon bonus.
+        uint256 bonus;
         bool confirmed;
         bool exists;
+        bool claimed;
+        bool refunded;
+        bool band;
     }
 
-    address private _owner;
-
-    mapping(uint8 => mapping(uint256 => uint256)) private _dailyPrice;
-    mapping(uint8 => mapping(uint256 => bool)) private _priceRecorded;
-    mapping(uint8 => uint256) private _latestDay;
-    mapping(address => mapping(uint8 => mapping(uint256 => Prediction))) private _predictions;
-    mapping(address => euint128) private _points;
-    mapping(address => bool) private _pointsInitialized;
-
-    event OwnerUpdated(address indexed previousOwner, address indexed newOwner);
-    event PriceRecorded(uint8 indexed asset, uint256 indexed day, uint256 price);
+    mapping(address user => mapping(uint8 asset => mapping(uint256 day => Prediction prediction))) private _predictions;
+    uint256 private _openStake;
+    mapping(uint8 asset => mapping(uint256 day => uint256 count)) private _predictionCount;
+    mapping(address user => mapping(uint8 asset => mapping(uint256 day => PredictionReveals.Reveal reveal)))
+        private _reveals;
+    PrivPoints private immutable _POINTS_TOKEN;
+    mapping(address user => bool initialized) private _pointsInitialized;
+    PointRedemptions.Ledger private _redemptions;
+    mapping(uint8 asset => mapping(uint256 day => PoolSettlement.Pool pool)) private _pools;
+    mapping(uint8 asset => mapping(uint256 day => CrowdSentiment.Sentiment sentiment)) private _sentiments;
+    mapping(address user => mapping(uint8 asset => PredictionScoring.Streak streak)) private _streaks;
+    uint256 private _bonusReserve;
+
+    /// @notice ETH left the treasury.
+    /// @param to Recipient.
+    /// @param amount Amount withdrawn, in wei.
+    event TreasuryWithdrawn(address indexed to, uint256 amount);
+
+    /// @notice A prediction was placed.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param stake ETH stake, in wei; zero for confidential stakes.
     event PredictionPlaced(address indexed user, uint8 indexed asset, uint256 indexed day, uint256 stake);
+
+    /// @notice A prediction was scored against the recorded price.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
     event PredictionConfirmed(address indexed user, uint8 indexed asset, uint256 indexed day);
 
-    modifier onlyOwner() {
-        require(msg.sender == _owner, "Owner only");
-        _;
-    }
+    /// @notice A keeper was paid for confirming a prediction for its owner.
+    /// @param keeper Confirming account.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param tip Tip paid, in wei.
+    event KeeperTipPaid(address indexed keeper, address indexed user, uint8 indexed asset, uint256 day, uint256 tip);
+
+    /// @notice A batch confirmation skipped an entry that is not ready.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param reason Why the entry cannot be confirmed.
+    event PredictionSkipped(address indexed user, uint8 indexed asset, uint256 indexed day, string reason);
+
+    /// @notice A prediction and its outcome were made publicly decryptable.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param handles Handles to decrypt, in the order `finalizeReveal` checks them.
+    event PredictionRevealRequested(address indexed user, uint8 indexed asset, uint256 indexed day, bytes32[] handles);
+
+    /// @notice A prediction and its outcome were published.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param price Predicted price, or the low bound of a band.
+    /// @param direction Predicted direction: 1 above, 2 below; 0 for bands.
+    /// @param upper High bound of a band; 0 for threshold predictions.
+    /// @param band Whether the prediction is a band.
+    /// @param correct Whether the prediction was correct.
+    event PredictionRevealed(
+        address indexed user,
+        uint8 indexed asset,
+        uint256 indexed day,
+        uint64 price,
+        uint8 direction,
+        uint64 upper,
+        bool band,
+        bool correct
+    );
+
+    /// @notice The stake of a day without a price was refunded.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param stake ETH refunded, in wei.
+    event RefundClaimed(address indexed user, uint8 indexed asset, uint256 indexed day, uint256 stake);
+
+    /// @notice Points were burned for a redemption; the amount is publicly decryptable.
+    /// @param user Redeemer.
+    /// @param requestId Redemption id.
+    /// @param amount Encrypted amount burned.
+    event RedemptionRequested(address indexed user, uint256 indexed requestId, euint128 amount);
+
+    /// @notice A redemption's amount was decrypted and added to what the user is owed.
+    /// @param user Redeemer.
+    /// @param requestId Redemption id.
+    /// @param amount Amount burned, in wei.
+    event RedemptionFinalized(address indexed user, uint256 indexed requestId, uint256 amount);
+
+    /// @notice Owed ETH was paid out.
+    /// @param user Redeemer.
+    /// @param amount Amount paid, in wei.
+    /// @param outstanding Amount still owed, in wei.
+    event RedemptionPaid(address indexed user, uint256 amount, uint256 outstanding);
+
+    /// @notice The outstanding points total was made publicly decryptable for a treasury withdrawal.
+    /// @param outstandingPoints Encrypted total of points that may still be redeemed.
+    event OutstandingPointsRevealRequested(euint128 outstandingPoints);
+
+    /// @notice ETH was sent to the treasury.
+    /// @param from Sender.
+    /// @param amount Amount received, in wei.
+    event Funded(address indexed from, uint256 amount);
+
+    /// @notice ETH was added to the reserve that pays horizon bonuses.
+    /// @param from Sender.
+    /// @param amount Amount received, in wei.
+    event BonusReserveFunded(address indexed from, uint256 amount);
+
+    /// @notice A day was switched to parimutuel pool settlement.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    event PoolModeEnabled(uint8 indexed asset, uint256 indexed day);
+
+    /// @notice A pool's totals were made publicly decryptable.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    /// @param totalStake Encrypted total of the placed stakes.
+    /// @param winningStake Encrypted total of the correct stakes.
+    event PoolSettlementRequested(uint8 indexed asset, uint256 indexed day, euint128 totalStake, euint128 winningStake);
+
+    /// @notice A pool's clear totals were stored; claims are open.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    /// @param totalStake Total of the placed stakes.
+    /// @param winningStake Total of the correct stakes.
+    event PoolSettled(uint8 indexed asset, uint256 indexed day, uint256 totalStake, uint256 winningStake);
+
+    /// @notice A day's sentiment totals were made publicly decryptable.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param upStake Encrypted stake predicting a higher price.
+    /// @param downStake Encrypted stake predicting a lower price.
+    event SentimentRevealRequested(uint8 indexed asset, uint256 indexed day, euint128 upStake, euint128 downStake);
+
+    /// @notice A day's sentiment totals were published.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param upStake Stake predicting a higher price.
+    /// @param downStake Stake predicting a lower price.
+    event SentimentRevealed(uint8 indexed asset, uint256 indexed day, uint256 upStake, uint256 downStake);
+
+    /// @notice A pool reward was credited as points.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    event PoolRewardClaimed(address indexed user, uint8 indexed asset, uint256 indexed day);
+
+    error WithdrawFailed();
+    error StakeRequired();
+    error StakeTooLarge();
+    error DayOutsideHorizon();
+    error PredictionExists();
+    error NotConfirmable(string reason);
+    error TipFailed();
+    error RefundWindowOpen();
+    error PredictionMissing();
+    error AlreadyRefunded();
+    error RefundFailed();
+    error PredictionNotConfirmed();
+    error DayAlreadyStarted();
+    error PoolModeAlreadyEnabled();
+    error DayHasPredictions();
+    error SettlementWindowOpen();
+    error PoolNotSettled();
+    error AlreadyClaimed();
+    error DayNotStarted();
+    error PointsNotInitialized();
+
+    // Raised by the linked libraries; declared here so they are part of this contract's ABI.
+    error RevealAlreadyRequested();
+    error RevealNotRequested();
+    error PredictionAlreadyRevealed();
+    error SentimentAlreadyRequested();
+    error SentimentNotRequested();
+    error SentimentAlreadyRevealed();
+    error PoolModeDisabled();
+    error SettlementAlreadyRequested();
+    error SettlementNotRequested();
+    error PoolAlreadySettled();
+    error RedemptionMissing();
+    error AlreadyRedeemed();
+    error PayoutFailed();
 
     constructor() {
-        _owner = msg.sender;
-        emit OwnerUpdated(address(0), msg.sender);
+        _POINTS_TOKEN = new PrivPoints();
     }
 
-    function owner() external view returns (address) {
-        return _owner;
+    /// @notice Accepts ETH that funds redemptions.
+    receive() external payable {
+        emit Funded(msg.sender, msg.value);
     }
 
-    function currentDay() public view returns (uint256) {
-        return block.timestamp / 1 days;
+    /// @notice Adds `msg.value` to the reserve that horizon bonuses are paid from.
+    function fundBonusReserve() external payable {
+        _bonusReserve += msg.value;
+        emit BonusReserveFunded(msg.sender, msg.value);
     }
 
-    function recordDailyPrice(uint8 asset, uint256 price) external onlyOwner {
-        require(asset <= uint8(Asset.BTC), "Invalid asset");
-        require(price <= type(uint64).max, "Price too large");
-
-        uint256 day = currentDay();
-        require(!_priceRecorded[asset][day], "Price already recorded");
-
-        _dailyPrice[asset][day] = price;
-        _priceRecorded[asset][day] = true;
-        _latestDay[asset] = day;
+    /// @notice ETH left for horizon bonuses of new predictions, which the treasury cannot withdraw.
+    /// @return Bonus reserve, in wei.
+    function getBonusReserve() external view returns (uint256) {
+        return _bonusReserve;
+    }
 
-        emit PriceRecorded(asset, day, price);
+    /// @notice Makes the outstanding points total publicly decryptable so a treasury withdrawal can prove it.
+    function requestOutstandingPointsReveal() external onlyRole(TREASURY_ROLE) {
+        PointRedemptions.requestOutstandingReveal(_redemptions);
     }
 
-    function getPrice(uint8 asset, uint256 day) external view returns (uint256 price, bool recorded) {
-        price = _dailyPrice[asset][day];
-        recorded = _priceRecorded[asset][day];
+    /// @notice Withdraws ETH from the treasury.
+    /// @dev Only ETH not already owed to redeemers, backing outstanding points, staked on unsettled predictions or in
+    /// the bonus reserve can leave. Points minted or redeemed since `requestOutstandingPointsReveal` change the total,
+    /// so the reveal has to be requested again.
+    /// @param to Recipient.
+    /// @param amount Amount to withdraw, in wei.
+    /// @param outstandingPoints Decrypted outstanding points total.
+    /// @param decryptionProof KMS signatures over the total.
+    function withdrawTreasury(
+        address payable to,
+        uint256 amount,
+        uint256 outstandingPoints,
+        bytes calldata decryptionProof
+    ) external onlyRole(TREASURY_ROLE) {
+        uint256 balance = address(this).balance;
+        uint256 reserved =
+            PointRedemptions.reserved(_redemptions, outstandingPoints, decryptionProof) + _openStake + _bonusReserve;
+        uint256 available = balance > reserved ? balance - reserved : 0;
+        if (amount == 0 || amount > available) revert ExceedsAvailableBalance();
+
+        (bool sent, ) = to.call{value: amount}("");
+        if (!sent) revert WithdrawFailed();
+
+        emit TreasuryWithdrawn(to, amount);
     }
 
-    function getLatestDay(uint8 asset) external view returns (uint256) {
-        return _latestDay[asset];
+    /// @notice ETH staked on predictions that are neither confirmed nor refunded, or on pools not yet settled, plus the
+    /// horizon bonuses set aside for them, which the treasury cannot withdraw.
+    /// @return Open stake, in wei.
+    function getOpenStake() external view returns (uint256) {
+        return _openStake;
     }
 
+    /// @notice Predicts whether the price of `day` ends above or below an encrypted price, staking `msg.value`.
+    /// @param asset Asset index.
+    /// @param day Day within the horizon.
+    /// @param encryptedPrice Encrypted threshold price.
+    /// @param encryptedDirection Encrypted direction: 1 above, 2 below.
+    /// @param inputProof Proof for the encrypted inputs.
     function placePrediction(
         uint8 asset,
+        uint256 day,
         externalEuint64 encryptedPrice,
         externalEuint8 encryptedDirection,
         bytes calldata inputProof
     ) external payable {
-        require(asset <= uint8(Asset.BTC), "Invalid asset");
-        require(msg.value > 0, "Stake required");
-        require(msg.value <= type(uint128).max, "Stake too large");
+        if (msg.value == 0) revert StakeRequired();
+        Prediction storage prediction = _openPrediction(asset, day);
+        _storeThreshold(prediction, encryptedPrice, encryptedDirection, inputProof);
+        CrowdSentiment.add(_sentiments[asset][day], prediction.direction, FHE.asEuint128(uint128(msg.value)));
+    }
 
-        uint256 day = currentDay() + 1;
-        Prediction storage prediction = _predictions[msg.sender][asset][day];
-        require(!prediction.exists, "Prediction exists");
+    /// @notice Predicts like `placePrediction` with an encrypted token stake.
+    /// @dev Same as `placePrediction`, but the stake is an encrypted amount pulled from the stake token, so neither the
+    /// event nor the prediction reveals it. The caller must first make this contract an operator on the token. A stake
+    /// above the caller's token balance pulls nothing and can only earn nothing.
+    /// @param asset Asset index.
+    /// @param day Day within the horizon.
+    /// @param encryptedPrice Encrypted threshold price.
+    /// @param encryptedDirection Encrypted direction: 1 above, 2 below.
+    /// @param encryptedStake Encrypted stake to pull from the stake token.
+    /// @param inputProof Proof for the encrypted inputs.
+    function placeConfidentialPrediction(
+        uint8 asset,
+        uint256 day,
+        externalEuint64 encryptedPrice,
+        externalEuint8 encryptedDirection,
+        externalEuint64 encryptedStake,
+        bytes calldata inputProof
+    ) external {
+        _requireStakeToken();
+        Prediction storage prediction = _openPrediction(asset, day);
+        _storeThreshold(prediction, encryptedPrice, encryptedDirection, inputProof);
+
+        prediction.encryptedStake = _pullTokenStake(FHE.fromExternal(encryptedStake, inputProof));
+        FHE.allowThis(prediction.encryptedStake);
+        FHE.allow(prediction.encryptedStake, msg.sender);
+    }
+
+    /// @notice Predicts that the price of `day` lands in an encrypted band, staking `msg.value`.
+    /// @dev Bets that the price on `day` settles inside `[low, high]`; narrower bands pay a higher multiplier.
+    /// @param asset Asset index.
+    /// @param day Day within the horizon.
+    /// @param encryptedLow Encrypted low bound.
+    /// @param encryptedHigh Encrypted high bound.
+    /// @param inputProof Proof for the encrypted inputs.
+    function placeRangePrediction(
+        uint8 asset,
+        uint256 day,
+        externalEuint64 encryptedLow,
+        externalEuint64 encryptedHigh,
+        bytes calldata inputProof
+    ) external payable {
+        if (msg.value == 0) revert StakeRequired();
+        Prediction storage prediction = _openPrediction(asset, day);
+
+        prediction.price = FHE.fromExternal(encryptedLow, inputProof);
+        prediction.upper = FHE.fromExternal(encryptedHigh, inputProof);
+        prediction.band = true;
+
+        FHE.allowThis(prediction.price);
+        FHE.allowThis(prediction.upper);
+        FHE.allow(prediction.price, msg.sender);
+        FHE.allow(prediction.upper, msg.sender);
+    }
+
+    /// @notice Scores the caller's prediction against the recorded price and credits the reward.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    function confirmPrediction(uint8 asset, uint256 day) external {
+        _confirmFor(msg.sender, asset, day);
+    }
+
+    /// @notice Scores `user`'s prediction against the recorded price.
+    /// @dev Anyone may settle a recorded day for `user`; points and outcome stay readable by `user` only. A third-party
+    /// caller is paid the keeper tip out of the stake, so a correct prediction earns the stake minus the tip.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    function confirmFor(address user, uint8 asset, uint256 day) external {
+        _confirmFor(user, asset, day);
+    }
+    /// @notice Encrypted win streak of `user` on an asset.
+    /// @dev The encrypted count only changes on confirmation, so a streak whose `lastDay` is more than one day behind
+    /// the latest recorded price will reset on the next confirmation.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @return streak Encrypted count of consecutive correct days.
+    /// @return lastDay Last day that counted towards it.
+    function getStreak(address user, uint8 asset) external view returns (euint32 streak, uint256 lastDay) {
+        PredictionScoring.Streak storage current = _streaks[user][asset];
+        return (current.count, current.lastDay);
+    }
+
+    /// @notice Confirms several of the caller's predictions.
+    /// @dev Entries that cannot be confirmed yet emit `PredictionSkipped` instead of reverting the batch.
+    /// @param assets Asset of each entry.
+    /// @param dayIndexes Day of each entry.
+    /// @return confirmed Whether each entry was confirmed.
+    function confirmPredictions(
+        uint8[] calldata assets,
+        uint256[] calldata dayIndexes
+    ) external returns (bool[] memory confirmed) {
+        _requireNotPaused();
+        if (assets.length != dayIndexes.length) revert LengthMismatch();
+
+        confirmed = new bool[](assets.length);
+        for (uint256 i = 0; i < assets.length; ++i) {
+            string memory blocker = _confirmationBlocker(msg.sender, assets[i], dayIndexes[i]);
+            if (bytes(blocker).length == 0) {
+                _confirm(msg.sender, assets[i], dayIndexes[i]);
+                confirmed[i] = true;
+            } else {
+                emit PredictionSkipped(msg.sender, assets[i], dayIndexes[i], blocker);
+            }
+        }
+    }
+
+    /// @dev Opens the slot for `day` with `msg.value` as the public stake, which is zero for confidential stakes.
+    function _openPrediction(uint8 asset, uint256 day) internal returns (Prediction storage prediction) {
+        _requireNotPaused();
+        _requireActiveAsset(asset);
+        if (msg.value > type(uint128).max) revert StakeTooLarge();
+
+        uint256 today = currentDay();
+        if (!(day > today) || day > today + _maxHorizon) revert DayOutsideHorizon();
+        prediction = _predictions[msg.sender][asset][day];
+        if (prediction.exists) revert PredictionExists();
 
-        prediction.price = FHE.fromExternal(encryptedPrice, inputProof);
-        prediction.direction = FHE.fromExternal(encryptedDirection, inputProof);
         prediction.stake = msg.value;
-        prediction.confirmed = false;
         prediction.exists = true;
+        prediction.horizon = day - today;
+        prediction.rewardBps = 10_000;
+        ++_predictionCount[asset][day];
+        if (msg.value == 0) {
+            // Token rewards stay owed until the token treasury can pay them, so their bonus needs no reserve.
+            prediction.rewardBps += _horizonBonusBps * (prediction.horizon - 1);
+        } else if (_pools[asset][day].enabled) {
+            PoolSettlement.addStake(_pools[asset][day], msg.value);
+        } else {
+            _reserveHorizonBonus(prediction);
+        }
+        _openStake += msg.value + prediction.bonus;
+
+        _initPoints(msg.sender);
+
+        emit PredictionPlaced(msg.sender, asset, day, msg.value);
+    }
+
+    /// @dev Sets the horizon bonus of an ETH stake aside from the bonus reserve, as far as the reserve covers it, and
+    /// scales the reward to what was set aside. The bonus of a wrong prediction goes to the treasury on confirmation.
+    function _reserveHorizonBonus(Prediction storage prediction) internal {
+        uint256 bonus = (prediction.stake * _horizonBonusBps * (prediction.horizon - 1)) / 10_000;
+        if (bonus > _bonusReserve) {
+            bonus = _bonusReserve;
+        }
+
+        _bonusReserve -= bonus;
+        prediction.bonus = bonus;
+        prediction.rewardBps += (bonus * 10_000) / prediction.stake;
+    }
+
+    /// @dev Takes ETH paid out of a stake back out of the day's pool total, if the day is a pool.
+    function _removePoolStake(uint8 asset, uint256 day, uint256 amount) internal {
+        if (amount > 0 && _pools[asset][day].enabled) {
+            PoolSettlement.removeStake(_pools[asset][day], amount);
+        }
+    }
+
+    function _storeThreshold(
+        Prediction storage prediction,
+        externalEuint64 encryptedPrice,
+        externalEuint8 encryptedDirection,
+        bytes calldata inputProof
+    ) internal {
+        prediction.price = FHE.fromExternal(encryptedPrice, inputProof);
+        prediction.direction = FHE.fromExternal(encryptedDirection, inputProof);
 
         FHE.allowThis(prediction.price);
         FHE.allowThis(prediction.direction);
         FHE.allow(prediction.price, msg.sender);
         FHE.allow(prediction.direction, msg.sender);
+    }
 
-        _initPoints(msg.sender);
+    /// @dev Confirms for `user`, paying the keeper tip when someone else calls.
+    function _confirmFor(address user, uint8 asset, uint256 day) internal {
+        _requireNotPaused();
+        string memory blocker = _confirmationBlocker(user, asset, day);
+        if (bytes(blocker).length > 0) revert NotConfirmable(blocker);
+
+        uint256 tip;
+        if (msg.sender != user) {
+            Prediction storage prediction = _predictions[user][asset][day];
+            tip = (prediction.stake * _keeperTipBps) / 10_000;
+            prediction.stake -= tip;
+            _openStake -= tip;
+            _removePoolStake(asset, day, tip);
+        }
 
-        emit PredictionPlaced(msg.sender, asset, day, msg.value);
+        _confirm(user, asset, day);
+
+        if (tip > 0) {
+            (bool sent, ) = payable(msg.sender).call{value: tip}("");
+            if (!sent) revert TipFailed();
+            emit KeeperTipPaid(msg.sender, user, asset, day, tip);
+        }
     }
 
-    function confirmPrediction(uint8 asset, uint256 day) external {
-        require(asset <= uint8(Asset.BTC), "Invalid asset");
-        require(currentDay() >= day, "Too early");
-        require(_priceRecorded[asset][day], "Price not recorded");
+    function _confirm(address user, uint8 asset, uint256 day) internal {
+        Prediction storage prediction = _predictions[user][asset][day];
+        uint64 actual = uint64(_dailyPrice[asset][day]);
+        bool confidential = FHE.isInitialized(prediction.encryptedStake);
+        euint128 stake =
+            confidential ? FHE.asEuint128(prediction.encryptedStake) : FHE.asEuint128(uint128(prediction.stake));
+
+        (ebool isCorrect, euint128 reward) = PredictionScoring.score(
+            _guess(prediction),
+            stake,
+            prediction.rewardBps,
+            actual,
+            _accuracyTiers
+        );
+        reward = PredictionScoring.applyStreak(_streaks[user][asset], _streakBonuses, isCorrect, day, reward, user);
+
+        PoolSettlement.Pool storage pool = _pools[asset][day];
+        if (confidential) {
+            // Token stakes are paid in the stake token, apart from the ETH-backed points. They cannot be split in the
+            // clear either, so they are scored individually on pool days.
+            _creditTokenReward(user, prediction.encryptedStake, reward);
+        } else if (pool.enabled) {
+            // Pools split the losing stakes pro rata, so band, horizon, accuracy and streak bonuses do not apply.
+            PoolSettlement.addWinningStake(pool, FHE.select(isCorrect, stake, FHE.asEuint128(0)));
+        } else {
+            _creditPoints(user, reward);
+        }
 
-        Prediction storage prediction = _predictions[msg.sender][asset][day];
-        require(prediction.exists, "Prediction missing");
-        require(!prediction.confirmed, "Already confirmed");
+        prediction.outcome = isCorrect;
+        FHE.allowThis(prediction.outcome);
+        FHE.allow(prediction.outcome, user);
+        prediction.confirmed = true;
+        // Pool stakes stay open until settlement decides whether they are owed to the winners.
+        if (!pool.enabled) {
+            _openStake -= prediction.stake + prediction.bonus;
+        }
+
+        emit PredictionConfirmed(user, asset, day);
+    }
+
+    /// @dev Returns the revert reason `confirmPrediction` would give, or an empty string when the entry is ready.
+    function _confirmationBlocker(address user, uint8 asset, uint256 day) internal view returns (string memory) {
+        if (!(asset < _assets.length)) {
+            return "Invalid asset";
+        }
+        if (currentDay() < day) {
+            return "Too early";
+        }
+        if (!_priceRecorded[asset][day]) {
+            return "Price not recorded";
+        }
+
+        Prediction storage prediction = _predictions[user][asset][day];
+        if (!prediction.exists) {
+            return "Prediction missing";
+        }
+        if (prediction.confirmed) {
+            return "Already confirmed";
+        }
+        // A refunded prediction has no stake left; the refund window can be widened and the day backfilled after.
+        if (prediction.refunded) {
+            return "Already refunded";
+        }
+        if (_pools[asset][day].enabled && currentDay() > day + _settlementWindow) {
+            return "Settlement closed";
+        }
+        return "";
+    }
 
-        uint256 price = _dailyPrice[asset][day];
-        euint64 actual = FHE.asEuint64(uint64(price));
+    /// @notice Why `user`'s prediction cannot be confirmed, as `confirmPrediction` would revert with it.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @return Reason, or an empty string when the prediction is ready to confirm.
+    function getConfirmationBlocker(address user, uint8 asset, uint256 day) external view returns (string memory) {
+        return _confirmationBlocker(user, asset, day);
+    }
 
-        ebool isGreater = FHE.gt(actual, prediction.price);
-        ebool isLess = FHE.lt(actual, prediction.price);
-        ebool dirGreater = FHE.eq(prediction.direction, FHE.asEuint8(1));
-        ebool dirLess = FHE.eq(prediction.direction, FHE.asEuint8(2));
+    /// @notice Refunds the caller's stake for a day that never got a price.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    function claimRefund(uint8 asset, uint256 day) external {
+        _requireNotPaused();
+        if (_priceRecorded[asset][day]) revert PriceAlreadyRecorded();
+        if (!(currentDay() > day + _refundWindow)) revert RefundWindowOpen();
 
-        ebool isCorrect = FHE.or(FHE.and(dirGreater, isGreater), FHE.and(dirLess, isLess));
-        euint128 reward = FHE.select(isCorrect, FHE.asEuint128(uint128(prediction.stake)), FHE.asEuint128(0));
+        Prediction storage prediction = _predictions[msg.sender][asset][day];
+        if (!prediction.exists) revert PredictionMissing();
+        if (prediction.refunded) revert AlreadyRefunded();
 
-        _points[msg.sender] = FHE.add(_points[msg.sender], reward);
-        FHE.allowThis(_points[msg.sender]);
-        FHE.allow(_points[msg.sender], msg.sender);
+        prediction.refunded = true;
+        uint256 stake = prediction.stake;
+        _openStake -= stake + prediction.bonus;
+        _bonusReserve += prediction.bonus;
 
-        prediction.confirmed = true;
+        if (FHE.isInitialized(prediction.encryptedStake)) {
+            _refundTokenStake(msg.sender, prediction.encryptedStake);
+        }
+        if (stake > 0) {
+            _removePoolStake(asset, day, stake);
+            (bool sent, ) = payable(msg.sender).call{value: stake}("");
+            if (!sent) revert RefundFailed();
+        }
 
-        emit PredictionConfirmed(msg.sender, asset, day);
+        emit RefundClaimed(msg.sender, asset, day, stake);
     }
 
+    /// @notice A prediction's stored fields.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @return price Encrypted threshold price, or low bound of a band.
+    /// @return direction Encrypted direction of a threshold prediction.
+    /// @return stake ETH stake, in wei.
+    /// @return confirmed Whether it was confirmed.
+    /// @return exists Whether it was placed.
+    /// @return refunded Whether its stake was refunded.
+    /// @return band Whether it is a band.
+    /// @return upper Encrypted high bound of a band.
+    /// @return horizon Days between placement and the predicted day.
+    /// @return encryptedStake Encrypted token stake, if any.
     function getPrediction(
         address user,
         uint8 asset,
         uint256 day
-    ) external view returns (euint64 price, euint8 direction, uint256 stake, bool confirmed, bool exists) {
+    )
+        external
+        view
+        returns (
+            euint64 price,
+            euint8 direction,
+            uint256 stake,
+            bool confirmed,
+            bool exists,
+            bool refunded,
+            bool band,
+            euint64 upper,
+            uint256 horizon,
+            euint64 encryptedStake
+        )
+    {
+        Prediction storage prediction = _predictions[user][asset][day];
+        return (
+            prediction.price,
+            prediction.direction,
+            prediction.stake,
+            prediction.confirmed,
+            prediction.exists,
+            prediction.refunded,
+            prediction.band,
+            prediction.upper,
+            prediction.horizon,
+            prediction.encryptedStake
+        );
+    }
+
+    /// @notice Publicly reveals the caller's confirmed prediction.
+    /// @dev Opt-in and irreversible: makes the caller's confirmed prediction and its outcome publicly decryptable.
+    /// Anyone can then publish the clear values with `finalizeReveal`, using the handles from the event.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    function revealPrediction(uint8 asset, uint256 day) external {
+        Prediction storage prediction = _predictions[msg.sender][asset][day];
+        if (!prediction.confirmed) revert PredictionNotConfirmed();
+        PredictionReveals.request(
+            _reveals[msg.sender][asset][day],
+            _guess(prediction),
+            prediction.outcome,
+            msg.sender,
+            asset,
+            day
+        );
+    }
+
+    /// @notice Publishes the clear values of a requested reveal.
+    /// @dev Bands pass their low bound as `price` and their high bound as `upper`, threshold predictions pass
+    /// `direction`; the unused value is ignored.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param price Decrypted price, or low bound of a band.
+    /// @param direction Decrypted direction of a threshold prediction.
+    /// @param upper Decrypted high bound of a band.
+    /// @param correct Decrypted outcome.
+    /// @param decryptionProof KMS signatures over the clear values.
+    function finalizeReveal(
+        address user,
+        uint8 asset,
+        uint256 day,
+        uint64 price,
+        uint8 direction,
+        uint64 upper,
+        bool correct,
+        bytes calldata decryptionProof
+    ) external {
         Prediction storage prediction = _predictions[user][asset][day];
-        return (prediction.price, prediction.direction, prediction.stake, prediction.confirmed, prediction.exists);
+        PredictionReveals.finalize(
+            _reveals[user][asset][day],
+            _guess(prediction),
+            prediction.outcome,
+            user,
+            asset,
+            day,
+            price,
+            direction,
+            upper,
+            correct,
+            decryptionProof
+        );
     }
 
+    /// @notice Public reveal of a prediction.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @return requested Whether a reveal was requested.
+    /// @return revealed Whether the clear values were published.
+    /// @return price Predicted price, or low bound of a band.
+    /// @return direction Predicted direction of a threshold prediction.
+    /// @return upper High bound of a band.
+    /// @return band Whether it is a band.
+    /// @return correct Whether it was correct.
+    function getReveal(
+        address user,
+        uint8 asset,
+        uint256 day
+    )
+        external
+        view
+        returns (bool requested, bool revealed, uint64 price, uint8 direction, uint64 upper, bool band, bool correct)
+    {
+        PredictionReveals.Reveal storage reveal = _reveals[user][asset][day];
+        return (
+            reveal.requested,
+            reveal.revealed,
+            reveal.price,
+            reveal.direction,
+            reveal.upper,
+            reveal.band,
+            reveal.correct
+        );
+    }
+
+    /// @notice Encrypted points balance of `user`.
+    /// @param user Player.
+    /// @return Balance handle.
     function getPoints(address user) external view returns (euint128) {
-        return _points[user];
+        return _POINTS_TOKEN.confidentialBalanceOf(user);
+    }
+
+    /// @notice Points token created at deployment.
+    /// @return Token address.
+    function getPointsToken() external view returns (address) {
+        return address(_POINTS_TOKEN);
+    }
+
+    /// @notice Settles a future day as a parimutuel pool. Fails once anyone has predicted on the day.
+    /// @param asset Asset index.
+    /// @param day Day that has not started.
+    function enablePoolMode(uint8 asset, uint256 day) external onlyOwner {
+        _requireActiveAsset(asset);
+        if (!(day > currentDay())) revert DayAlreadyStarted();
+        // Stakes join the pool total when they are placed, so the day has to be a pool before anyone predicts on it.
+        if (_predictionCount[asset][day] > 0) revert DayHasPredictions();
+
+        PoolSettlement.Pool storage pool = _pools[asset][day];
+        if (pool.enabled) revert PoolModeAlreadyEnabled();
+        pool.enabled = true;
+
+        emit PoolModeEnabled(asset, day);
+    }
+
+    /// @notice Makes a pool's totals publicly decryptable once its settlement window has passed.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    function requestPoolSettlement(uint8 asset, uint256 day) external {
+        if (!(currentDay() > day + _settlementWindow)) revert SettlementWindowOpen();
+        PoolSettlement.requestSettlement(_pools[asset][day], asset, day);
+    }
+
+    /// @notice Stores a pool's clear totals and releases its stakes from the open stake.
+    /// @dev With winners, the whole pool becomes outstanding points owed to them; without, it stays in the treasury.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    /// @param totalStake Decrypted total of the placed stakes.
+    /// @param winningStake Decrypted total of the correct stakes.
+    /// @param decryptionProof KMS signatures over both totals.
+    function settlePool(
+        uint8 asset,
+        uint256 day,
+        uint256 totalStake,
+        uint256 winningStake,
+        bytes calldata decryptionProof
+    ) external {
+        PoolSettlement.settle(_pools[asset][day], asset, day, totalStake, winningStake, decryptionProof);
+
+        _openStake -= totalStake;
+        if (winningStake > 0) {
+            PointRedemptions.addOutstanding(_redemptions, FHE.asEuint128(uint128(totalStake)));
+        }
+    }
+
+    /// @notice Credits the caller's share of a settled pool as points.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    function claimPoolReward(uint8 asset, uint256 day) external {
+        _requireNotPaused();
+        PoolSettlement.Pool storage pool = _pools[asset][day];
+        if (!pool.settled) revert PoolNotSettled();
+
+        Prediction storage prediction = _predictions[msg.sender][asset][day];
+        if (!prediction.confirmed) revert PredictionNotConfirmed();
+        if (prediction.claimed) revert AlreadyClaimed();
+
+        prediction.claimed = true;
+
+        // The pool's rewards joined the outstanding points when it settled.
+        _mintPoints(msg.sender, PoolSettlement.payout(pool, prediction.outcome, prediction.stake));
+
+        emit PoolRewardClaimed(msg.sender, asset, day);
+    }
+
+    /// @notice State of a pool.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    /// @return enabled Whether the day is a pool.
+    /// @return settled Whether the totals were published.
+    /// @return totalStake Encrypted total of the placed stakes.
+    /// @return winningStake Encrypted total of the correct stakes.
+    /// @return clearTotal Published total of the placed stakes.
+    /// @return clearWinning Published total of the correct stakes.
+    function getPool(
+        uint8 asset,
+        uint256 day
+    )
+        external
+        view
+        returns (
+            bool enabled,
+            bool settled,
+            euint128 totalStake,
+            euint128 winningStake,
+            uint256 clearTotal,
+            uint256 clearWinning
+        )
+    {
+        PoolSettlement.Pool storage pool = _pools[asset][day];
+        return (pool.enabled, pool.settled, pool.totalStake, pool.winningStake, pool.clearTotal, pool.clearWinning);
+    }
+
+    /// @notice Makes a day's sentiment totals publicly decryptable once the day has started.
+    /// @dev ETH-staked threshold predictions add their stake to the encrypted up or down total of their day; bands and
+    /// token stakes count for neither. Once the day starts no prediction can target it, so anyone may publish both.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    function requestSentimentReveal(uint8 asset, uint256 day) external {
+        if (currentDay() < day) revert DayNotStarted();
+        CrowdSentiment.requestReveal(_sentiments[asset][day], asset, day);
+    }
+
+    /// @notice Publishes a day's sentiment totals.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param upStake Decrypted stake predicting a higher price.
+    /// @param downStake Decrypted stake predicting a lower price.
+    /// @param decryptionProof KMS signatures over both totals.
+    function revealSentiment(
+        uint8 asset,
+        uint256 day,
+        uint256 upStake,
+        uint256 downStake,
+        bytes calldata decryptionProof
+    ) external {
+        CrowdSentiment.reveal(_sentiments[asset][day], asset, day, upStake, downStake, decryptionProof);
+    }
+
+    /// @notice Sentiment of a day.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @return requested Whether a reveal was requested.
+    /// @return revealed Whether the totals were published.
+    /// @return encryptedUp Encrypted stake predicting a higher price.
+    /// @return encryptedDown Encrypted stake predicting a lower price.
+    /// @return upStake Published stake predicting a higher price.
+    /// @return downStake Published stake predicting a lower price.
+    function getSentiment(
+        uint8 asset,
+        uint256 day
+    )
+        external
+        view
+        returns (
+            bool requested,
+            bool revealed,
+            euint128 encryptedUp,
+            euint128 encryptedDown,
+            uint256 upStake,
+            uint256 downStake
+        )
+    {
+        CrowdSentiment.Sentiment storage sentiment = _sentiments[asset][day];
+        return (
+            sentiment.requested,
+            sentiment.revealed,
+            sentiment.upStake,
+            sentiment.downStake,
+            sentiment.clearUp,
+            sentiment.clearDown
+        );
+    }
+
+    /// @notice Burns an encrypted amount of the caller's points for ETH.
+    /// @param encryptedAmount Encrypted amount to redeem.
+    /// @param inputProof Proof for `encryptedAmount`.
+    /// @return requestId Redemption id.
+    function requestRedemption(
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (uint256 requestId) {
+        return _requestRedemption(FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Burns the caller's whole points balance for ETH.
+    /// @return requestId Redemption id.
+    function requestFullRedemption() external returns (uint256 requestId) {
+        return _requestRedemption(_POINTS_TOKEN.confidentialBalanceOf(msg.sender));
+    }
+
+    /// @notice Publishes a redemption's amount and pays it out as far as the balance allows.
+    /// @param requestId Redemption id.
+    /// @param amount Decrypted amount burned.
+    /// @param decryptionProof KMS signatures over the amount.
+    function finalizeRedemption(uint256 requestId, uint256 amount, bytes calldata decryptionProof) external {
+        PointRedemptions.finalize(_redemptions, requestId, amount, decryptionProof);
+    }
+
+    /// @notice Pays the caller ETH still owed from redemptions.
+    function withdrawRedemption() external {
+        if (_redemptions.owed[msg.sender] == 0) revert NothingOwed();
+        PointRedemptions.payOut(_redemptions, msg.sender);
+    }
+
+    /// @notice State of a redemption.
+    /// @param requestId Redemption id.
+    /// @return user Redeemer.
+    /// @return amount Encrypted amount burned.
+    /// @return clearAmount Published amount.
+    /// @return finalized Whether the amount was published.
+    function getRedemption(
+        uint256 requestId
+    ) external view returns (address user, euint128 amount, uint256 clearAmount, bool finalized) {
+        PointRedemptions.Redemption storage redemption = _redemptions.redemptions[requestId];
+        return (redemption.user, redemption.amount, redemption.clearAmount, redemption.finalized);
+    }
+
+    /// @notice Encrypted total of points that may still be redeemed: rewards minted and settled pool rewards not yet
+    /// claimed, less finalized redemptions.
+    /// @return Outstanding points handle.
+    function getOutstandingPoints() external view returns (euint128) {
+        return _redemptions.outstandingPoints;
+    }
+
+    /// @notice ETH still owed to `user` from redemptions.
+    /// @param user Redeemer.
+    /// @return Amount owed, in wei.
+    function getOwed(address user) external view returns (uint256) {
+        return _redemptions.owed[user];
+    }
+
+    function _requestRedemption(euint128 requested) internal returns (uint256 requestId) {
+        _requireNotPaused();
+        if (!FHE.isInitialized(_POINTS_TOKEN.confidentialBalanceOf(msg.sender))) revert PointsNotInitialized();
+
+        // A request above the balance burns nothing and decrypts to zero.
+        FHE.allowTransient(requested, address(_POINTS_TOKEN));
+        return PointRedemptions.open(_redemptions, msg.sender, _POINTS_TOKEN.burn(msg.sender, requested));
+    }
+
+    function _guess(Prediction storage prediction) internal view returns (PredictionScoring.Guess memory) {
+        return PredictionScoring.Guess(prediction.price, prediction.direction, prediction.upper, prediction.band);
+    }
+
+    function _creditPoints(address user, euint128 amount) internal {
+        PointRedemptions.addOutstanding(_redemptions, amount);
+        _mintPoints(user, amount);
+    }
+
+    function _mintPoints(address user, euint128 amount) internal {
+        FHE.allowTransient(amount, address(_POINTS_TOKEN));
+        _POINTS_TOKEN.mint(user, amount);
     }
 
     function _initPoints(address user) internal {
@@ -152,9 +1003,8 @@ contract PrivOracle is ZamaEthereumConfig {
             return;
         }
 
-        _points[user] = FHE.asEuint128(0);
+        // Minting zero gives the user a balance handle they can decrypt before their first win.
         _pointsInitialized[user] = true;
-        FHE.allowThis(_points[user]);
-        FHE.allow(_points[user], user);
+        _mintPoints(user, FHE.asEuint128(0));
     }
 }
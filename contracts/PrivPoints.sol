@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint128, externalEuint128} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title PrivPoints
+/// @author PrivOracle
+/// @notice ERC-7984 style confidential token holding PrivOracle reward points, with 128-bit encrypted balances.
+/// @dev Created by PrivOracle, which is the only minter and burner: points are minted when predictions are confirmed
+/// and burned when they are redeemed. The minter can read every balance so full redemptions and its decrypt flows
+/// keep working. Transfers above the sender's balance move nothing instead of reverting.
+contract PrivPoints is ZamaEthereumConfig {
+    address private immutable _MINTER;
+
+    mapping(address account => euint128 balance) private _balances;
+    mapping(address holder => mapping(address operator => uint48 until)) private _operators;
+
+    /// @notice Points moved, were minted (`from` is zero) or were burned (`to` is zero).
+    /// @param from Sender.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount moved.
+    event ConfidentialTransfer(address indexed from, address indexed to, euint128 indexed amount);
+
+    /// @notice `holder` approved `operator` until the `until` timestamp.
+    /// @param holder Points holder.
+    /// @param operator Approved account.
+    /// @param until Expiry timestamp.
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+
+    error MinterOnly();
+    error AmountNotAllowed();
+    error NotOperator();
+    error InvalidRecipient();
+
+    modifier onlyMinter() {
+        _requireMinter();
+        _;
+    }
+
+    constructor() {
+        _MINTER = msg.sender;
+    }
+
+    /// @notice Token name.
+    /// @return Always "PrivOracle Points".
+    function name() external pure returns (string memory) {
+        return "PrivOracle Points";
+    }
+
+    /// @notice Token symbol.
+    /// @return Always "PPT".
+    function symbol() external pure returns (string memory) {
+        return "PPT";
+    }
+
+    /// @notice Number of decimals balances are counted in.
+    /// @dev One point is worth one wei when redeemed.
+    /// @return Always 18.
+    function decimals() external pure returns (uint8) {
+        return 18;
+    }
+
+    /// @notice The PrivOracle that mints and burns points.
+    /// @return Minter address.
+    function minter() external view returns (address) {
+        return _MINTER;
+    }
+
+    /// @notice Encrypted points balance of `account`.
+    /// @param account Points holder.
+    /// @return Balance handle.
+    function confidentialBalanceOf(address account) external view returns (euint128) {
+        return _balances[account];
+    }
+
+    /// @notice Whether `spender` may move the points of `holder`.
+    /// @param holder Points holder.
+    /// @param spender Account to check.
+    /// @return True for the holder itself and for operators whose approval has not expired.
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp < uint256(_operators[holder][spender]) + 1;
+    }
+
+    /// @notice Lets `operator` move the caller's points until the `until` timestamp.
+    /// @param operator Account to approve.
+    /// @param until Expiry timestamp; a past value revokes the approval.
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @notice Moves an amount encrypted by the caller to `to`; nothing moves when the balance is short.
+    /// @param to Recipient.
+    /// @param encryptedAmount Encrypted amount to move.
+    /// @param inputProof Proof for `encryptedAmount`.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransfer(
+        address to,
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint128 transferred) {
+        transferred = _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Moves `amount`, which the caller must be allowed to use, to `to`.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount to move.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransfer(address to, euint128 amount) external returns (euint128 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        transferred = _transfer(msg.sender, to, amount);
+    }
+
+    /// @notice Moves `amount` from `from` to `to`. The caller must be an operator of `from` and be allowed to use
+    /// `amount`.
+    /// @param from Points holder.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount to move.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        euint128 amount
+    ) external returns (euint128 transferred) {
+        if (!isOperator(from, msg.sender)) revert NotOperator();
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        transferred = _transfer(from, to, amount);
+    }
+
+    /// @notice Moves an amount encrypted by the caller from `from` to `to`. The caller must be an operator of `from`.
+    /// @param from Points holder.
+    /// @param to Recipient.
+    /// @param encryptedAmount Encrypted amount to move.
+    /// @param inputProof Proof for `encryptedAmount`.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint128 transferred) {
+        if (!isOperator(from, msg.sender)) revert NotOperator();
+        transferred = _transfer(from, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @notice Mints `amount` points to `to`.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount to mint.
+    function mint(address to, euint128 amount) external onlyMinter {
+        _update(address(0), to, amount);
+    }
+
+    /// @notice Burns `amount` from `from`, or nothing when it exceeds the balance.
+    /// @param from Points holder.
+    /// @param amount Encrypted amount to burn.
+    /// @return burned Encrypted amount burned.
+    function burn(address from, euint128 amount) external onlyMinter returns (euint128 burned) {
+        burned = _update(from, address(0), amount);
+        FHE.allowTransient(burned, msg.sender);
+    }
+
+    function _requireMinter() internal view {
+        if (msg.sender != _MINTER) revert MinterOnly();
+    }
+
+    function _transfer(address from, address to, euint128 amount) internal returns (euint128 transferred) {
+        if (to == address(0)) revert InvalidRecipient();
+        transferred = _update(from, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    function _update(address from, address to, euint128 amount) internal returns (euint128 transferred) {
+        transferred = amount;
+        if (from != address(0)) {
+            ebool enough = FHE.le(amount, _balances[from]);
+            transferred = FHE.select(enough, amount, FHE.asEuint128(0));
+            _storeBalance(from, FHE.sub(_balances[from], transferred));
+            FHE.allow(transferred, from);
+        }
+        if (to != address(0)) {
+            _storeBalance(to, FHE.add(_balances[to], transferred));
+            FHE.allow(transferred, to);
+        }
+        FHE.allowThis(transferred);
+
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _storeBalance(address account, euint128 balance) internal {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+        FHE.allow(balance, _MINTER);
+    }
+}
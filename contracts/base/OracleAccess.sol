@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title OracleAccess
+/// @author PrivOracle
+/// @notice Two-step ownership, the reporter, pauser and treasury roles, and the pause switch of PrivOracle.
+abstract contract OracleAccess {
+    /// @notice Role allowed to record and report prices.
+    bytes32 public constant REPORTER_ROLE = keccak256("REPORTER_ROLE");
+
+    /// @notice Role allowed to pause and unpause the game.
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    /// @notice Role allowed to withdraw ETH not owed to players.
+    bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+
+    address private _owner;
+    address private _pendingOwner;
+    mapping(bytes32 role => mapping(address account => bool granted)) private _roles;
+    bool private _paused;
+    uint256 internal _reporterCount;
+
+    /// @notice Ownership moved to `newOwner`.
+    /// @param previousOwner Former owner; zero at deployment.
+    /// @param newOwner New owner.
+    event OwnerUpdated(address indexed previousOwner, address indexed newOwner);
+
+    /// @notice `owner` proposed `pendingOwner` as the next owner.
+    /// @param owner Current owner.
+    /// @param pendingOwner Proposed owner; zero cancels a pending transfer.
+    event OwnershipTransferStarted(address indexed owner, address indexed pendingOwner);
+
+    /// @notice `account` was granted `role`.
+    /// @param role Granted role.
+    /// @param account Account holding the role.
+    event RoleGranted(bytes32 indexed role, address indexed account);
+
+    /// @notice `account` lost `role`.
+    /// @param role Revoked role.
+    /// @param account Account that held the role.
+    event RoleRevoked(bytes32 indexed role, address indexed account);
+
+    /// @notice Placing, confirming, refunding and redeeming were paused.
+    /// @param account Pauser.
+    event Paused(address indexed account);
+
+    /// @notice The game was unpaused.
+    /// @param account Pauser.
+    event Unpaused(address indexed account);
+
+    error OwnerOnly();
+    error MissingRole();
+    error NotPendingOwner();
+    error UnknownRole();
+    error InvalidAccount();
+    error RoleAlreadyGranted();
+    error RoleNotGranted();
+    error QuorumUnreachable();
+    error EnforcedPause();
+    error ExpectedPause();
+
+    modifier onlyOwner() {
+        _requireOwner();
+        _;
+    }
+
+    modifier onlyRole(bytes32 role) {
+        _requireRole(role);
+        _;
+    }
+
+    constructor() {
+        _owner = msg.sender;
+        emit OwnerUpdated(address(0), msg.sender);
+
+        // The deployer starts with the price, pause and fund keys; hand them to others with grantRole/revokeRole.
+        _grantRole(REPORTER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(TREASURY_ROLE, msg.sender);
+    }
+
+    /// @notice Current owner.
+    /// @return Owner address.
+    function owner() external view returns (address) {
+        return _owner;
+    }
+
+    /// @notice Owner proposed by `transferOwnership`, if any.
+    /// @return Pending owner, or zero.
+    function pendingOwner() external view returns (address) {
+        return _pendingOwner;
+    }
+
+    /// @notice Proposes `newOwner` as the next owner.
+    /// @dev The new owner has to call `acceptOwnership`; proposing address(0) cancels a pending transfer.
+    /// @param newOwner Proposed owner.
+    function transferOwnership(address newOwner) external onlyOwner {
+        _pendingOwner = newOwner;
+        emit OwnershipTransferStarted(_owner, newOwner);
+    }
+
+    /// @notice Makes the pending owner the owner.
+    function acceptOwnership() external {
+        if (msg.sender != _pendingOwner) revert NotPendingOwner();
+        emit OwnerUpdated(_owner, msg.sender);
+        _owner = msg.sender;
+        _pendingOwner = address(0);
+    }
+
+    /// @notice Grants `role` to `account`.
+    /// @param role Reporter, pauser or treasury role.
+    /// @param account Account to grant it to.
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        if (role != REPORTER_ROLE && role != PAUSER_ROLE && role != TREASURY_ROLE) revert UnknownRole();
+        if (account == address(0)) revert InvalidAccount();
+        if (_roles[role][account]) revert RoleAlreadyGranted();
+        _grantRole(role, account);
+    }
+
+    /// @notice Revokes `role` from `account`. Reporters cannot drop below the quorum.
+    /// @param role Role to revoke.
+    /// @param account Account holding it.
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        if (!_roles[role][account]) revert RoleNotGranted();
+        if (role == REPORTER_ROLE) {
+            if (!(_reporterCount > _reporterQuorum())) revert QuorumUnreachable();
+            --_reporterCount;
+        }
+
+        _roles[role][account] = false;
+        emit RoleRevoked(role, account);
+    }
+
+    /// @notice Whether `account` holds `role`.
+    /// @param role Role to check.
+    /// @param account Account to check.
+    /// @return True when granted.
+    function hasRole(bytes32 role, address account) external view returns (bool) {
+        return _roles[role][account];
+    }
+
+    /// @notice Every role of `account`.
+    /// @param account Account to check.
+    /// @return reporter Holds the reporter role.
+    /// @return pauser Holds the pauser role.
+    /// @return treasury Holds the treasury role.
+    function getRoles(address account) external view returns (bool reporter, bool pauser, bool treasury) {
+        return (_roles[REPORTER_ROLE][account], _roles[PAUSER_ROLE][account], _roles[TREASURY_ROLE][account]);
+    }
+
+    /// @notice Pauses placing, confirming, refunding and redeeming.
+    function pause() external onlyRole(PAUSER_ROLE) {
+        if (_paused) revert EnforcedPause();
+        _paused = true;
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resumes the game.
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        if (!_paused) revert ExpectedPause();
+        _paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Whether the game is paused.
+    /// @return True while paused.
+    function paused() external view returns (bool) {
+        return _paused;
+    }
+
+    /// @notice Number of reporters.
+    /// @return Reporter count.
+    function getReporterCount() external view returns (uint256) {
+        return _reporterCount;
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        _roles[role][account] = true;
+        if (role == REPORTER_ROLE) {
+            ++_reporterCount;
+        }
+        emit RoleGranted(role, account);
+    }
+
+    function _requireOwner() internal view {
+        if (msg.sender != _owner) revert OwnerOnly();
+    }
+
+    function _requireRole(bytes32 role) internal view {
+        if (!_roles[role][msg.sender]) revert MissingRole();
+    }
+
+    function _requireNotPaused() internal view {
+        if (_paused) revert EnforcedPause();
+    }
+
+    /// @dev Reports needed to record a price; reporters cannot be revoked below it.
+    function _reporterQuorum() internal view virtual returns (uint256);
+}
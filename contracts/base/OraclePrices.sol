@@ -0,0 +1,401 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IAggregatorV3} from "../interfaces/IAggregatorV3.sol";
+import {PriceReports} from "../libraries/PriceReports.sol";
+import {OracleAccess} from "./OracleAccess.sol";
+
+/// @title OraclePrices
+/// @author PrivOracle
+/// @notice Asset registry and daily prices of PrivOracle, recorded by a reporter, a reporter quorum or a price feed.
+abstract contract OraclePrices is OracleAccess {
+    struct AssetInfo {
+        string symbol;
+        uint8 decimals;
+        bool enabled;
+    }
+
+    AssetInfo[] internal _assets;
+    mapping(bytes32 symbolHash => bool registered) private _symbolRegistered;
+    mapping(uint8 asset => mapping(uint256 day => uint256 price)) internal _dailyPrice;
+    mapping(uint8 asset => mapping(uint256 day => bool recorded)) internal _priceRecorded;
+    mapping(uint8 asset => uint256 day) private _latestDay;
+    uint256 internal _refundWindow = 2;
+    uint256 private _quorum;
+    uint256 private _maxDeviationBps = 500;
+    mapping(uint8 asset => mapping(uint256 day => address[] reporters)) private _reportersByDay;
+    mapping(uint8 asset => mapping(uint256 day => mapping(address reporter => uint256 price))) private _reportedPrice;
+    mapping(address reporter => uint256 count) private _outlierCount;
+    mapping(uint8 asset => IAggregatorV3 feed) private _priceFeeds;
+    uint256 private _maxFeedAge = 1 hours;
+
+    /// @notice An asset was registered.
+    /// @param asset Asset index.
+    /// @param symbol Asset symbol.
+    /// @param decimals Decimals its prices are quoted with.
+    event AssetAdded(uint8 indexed asset, string symbol, uint8 decimals);
+
+    /// @notice An asset stopped accepting predictions.
+    /// @param asset Asset index.
+    event AssetDisabled(uint8 indexed asset);
+
+    /// @notice The price of a day was recorded.
+    /// @param asset Asset index.
+    /// @param day Recorded day.
+    /// @param price Price at the asset's decimals.
+    event PriceRecorded(uint8 indexed asset, uint256 indexed day, uint256 price);
+
+    /// @notice The reporter quorum changed.
+    /// @param quorum Reports needed to record a price; zero when a single reporter records it.
+    event QuorumUpdated(uint256 quorum);
+
+    /// @notice The reporter outlier threshold changed.
+    /// @param maxDeviationBps Largest distance from the median not flagged, in basis points.
+    event MaxDeviationUpdated(uint256 maxDeviationBps);
+
+    /// @notice The refund window changed.
+    /// @param refundWindow Days after a missed day before its stakes can be refunded.
+    event RefundWindowUpdated(uint256 refundWindow);
+
+    /// @notice An asset's price feed changed.
+    /// @param asset Asset index.
+    /// @param feed Chainlink-style feed; zero removes it.
+    event PriceFeedUpdated(uint8 indexed asset, address feed);
+
+    /// @notice The oldest accepted feed answer changed.
+    /// @param maxFeedAge Maximum answer age, in seconds.
+    event MaxFeedAgeUpdated(uint256 maxFeedAge);
+
+    /// @notice A reporter submitted a price.
+    /// @param reporter Reporter.
+    /// @param asset Asset index.
+    /// @param day Reported day.
+    /// @param price Reported price.
+    event PriceReported(address indexed reporter, uint8 indexed asset, uint256 indexed day, uint256 price);
+
+    /// @notice A reporter's price was further from the day's median than the allowed deviation.
+    /// @param reporter Flagged reporter.
+    /// @param asset Asset index.
+    /// @param day Reported day.
+    /// @param price Price the reporter submitted.
+    /// @param medianPrice Median the day was recorded at.
+    event ReporterFlagged(
+        address indexed reporter,
+        uint8 indexed asset,
+        uint256 indexed day,
+        uint256 price,
+        uint256 medianPrice
+    );
+
+    error InvalidAsset();
+    error InactiveAsset();
+    error SymbolRequired();
+    error TooManyDecimals();
+    error AssetLimitReached();
+    error AssetExists();
+    error ReporterQuorumActive();
+    error ReporterQuorumInactive();
+    error PriceFeedActive();
+    error DayNotPast();
+    error BackfillWindowClosed();
+    error InvalidRefundWindow();
+    error InvalidFeedAge();
+    error PriceRequired();
+    error PriceTooLarge();
+    error PriceAlreadyRecorded();
+    error AlreadyReported();
+
+    // Raised by the linked PriceReports library; declared here so they are part of the contract's ABI.
+    error NoPriceFeed();
+    error InvalidFeedAnswer();
+    error FeedRoundOutsideToday();
+    error StaleFeedPrice();
+
+    constructor() {
+        _addAsset("ETH", 2);
+        _addAsset("BTC", 2);
+    }
+
+    /// @notice Current day number: the Unix timestamp divided by one day.
+    /// @return Current day.
+    function currentDay() public view returns (uint256) {
+        return block.timestamp / 1 days;
+    }
+
+    /// @notice Registers an asset.
+    /// @param symbol Unique asset symbol.
+    /// @param decimals Decimals its prices are quoted with, up to 18.
+    /// @return asset Index of the new asset.
+    function addAsset(string calldata symbol, uint8 decimals) external onlyOwner returns (uint8 asset) {
+        return _addAsset(symbol, decimals);
+    }
+
+    /// @notice Stops new predictions for an asset. Placed predictions still settle.
+    /// @param asset Asset index.
+    function disableAsset(uint8 asset) external onlyOwner {
+        _requireActiveAsset(asset);
+        _assets[asset].enabled = false;
+
+        emit AssetDisabled(asset);
+    }
+
+    /// @notice Number of registered assets.
+    /// @return Asset count.
+    function assetCount() external view returns (uint256) {
+        return _assets.length;
+    }
+
+    /// @notice Details of one asset.
+    /// @param asset Asset index.
+    /// @return symbol Asset symbol.
+    /// @return decimals Decimals its prices are quoted with.
+    /// @return enabled Whether it accepts predictions.
+    function getAsset(uint8 asset) external view returns (string memory symbol, uint8 decimals, bool enabled) {
+        _requireAsset(asset);
+        AssetInfo storage info = _assets[asset];
+        return (info.symbol, info.decimals, info.enabled);
+    }
+
+    /// @notice Details of every asset, by index.
+    /// @return symbols Asset symbols.
+    /// @return decimals Decimals of each asset.
+    /// @return enabled Whether each asset accepts predictions.
+    function listAssets()
+        external
+        view
+        returns (string[] memory symbols, uint8[] memory decimals, bool[] memory enabled)
+    {
+        uint256 count = _assets.length;
+        symbols = new string[](count);
+        decimals = new uint8[](count);
+        enabled = new bool[](count);
+
+        for (uint256 i = 0; i < count; ++i) {
+            symbols[i] = _assets[i].symbol;
+            decimals[i] = _assets[i].decimals;
+            enabled[i] = _assets[i].enabled;
+        }
+    }
+
+    /// @notice Records today's price while no quorum or feed is set for the asset.
+    /// @param asset Asset index.
+    /// @param price Price at the asset's decimals.
+    function recordDailyPrice(uint8 asset, uint256 price) external onlyRole(REPORTER_ROLE) {
+        _requireSingleReporter(asset);
+        _recordPrice(asset, currentDay(), price);
+    }
+
+    /// @notice Records the price of a past day that has none.
+    /// @dev Fills in a missed day; once the refund window has passed the day can only be refunded. Like
+    /// `recordDailyPrice`, it is closed while a reporter quorum or a price feed sets the asset's prices.
+    /// @param asset Asset index.
+    /// @param day Past day to fill in.
+    /// @param price Price at the asset's decimals.
+    function backfillDailyPrice(uint8 asset, uint256 day, uint256 price) external onlyRole(REPORTER_ROLE) {
+        _requireSingleReporter(asset);
+        if (!(day < currentDay())) revert DayNotPast();
+        if (currentDay() > day + _refundWindow) revert BackfillWindowClosed();
+        _recordPrice(asset, day, price);
+    }
+
+    /// @notice Sets how long a day without a price waits before its stakes can be refunded.
+    /// @param refundWindow Window in days; at least one.
+    function setRefundWindow(uint256 refundWindow) external onlyOwner {
+        if (refundWindow == 0) revert InvalidRefundWindow();
+        _refundWindow = refundWindow;
+        emit RefundWindowUpdated(refundWindow);
+    }
+
+    /// @notice Refund window in days.
+    /// @return Refund window.
+    function getRefundWindow() external view returns (uint256) {
+        return _refundWindow;
+    }
+
+    /// @notice Sets the Chainlink-style feed of an asset.
+    /// @dev Setting a feed makes `pullDailyPrice` the only price source for the asset; address(0) removes it.
+    /// @param asset Asset index.
+    /// @param feed Feed address; zero removes it.
+    function setPriceFeed(uint8 asset, address feed) external onlyOwner {
+        _requireAsset(asset);
+        _priceFeeds[asset] = IAggregatorV3(feed);
+        emit PriceFeedUpdated(asset, feed);
+    }
+
+    /// @notice Sets the oldest feed answer `pullDailyPrice` accepts.
+    /// @param maxFeedAge Maximum age in seconds.
+    function setMaxFeedAge(uint256 maxFeedAge) external onlyOwner {
+        if (maxFeedAge == 0) revert InvalidFeedAge();
+        _maxFeedAge = maxFeedAge;
+        emit MaxFeedAgeUpdated(maxFeedAge);
+    }
+
+    /// @notice Records today's price from the asset's feed. Anyone can call it.
+    /// @param asset Asset index.
+    function pullDailyPrice(uint8 asset) external {
+        _requireAsset(asset);
+        uint256 price = PriceReports.readFeed(address(_priceFeeds[asset]), _assets[asset].decimals, _maxFeedAge);
+        _recordPrice(asset, currentDay(), price);
+    }
+
+    /// @notice Feed of an asset.
+    /// @param asset Asset index.
+    /// @return Feed address, or zero.
+    function getPriceFeed(uint8 asset) external view returns (address) {
+        return address(_priceFeeds[asset]);
+    }
+
+    /// @notice Oldest feed answer accepted, in seconds.
+    /// @return Maximum feed age.
+    function getMaxFeedAge() external view returns (uint256) {
+        return _maxFeedAge;
+    }
+
+    /// @notice Sets how many reporters must report before a price is recorded.
+    /// @dev A quorum of zero switches back to prices recorded by a single reporter through `recordDailyPrice`.
+    /// @param quorum Reports needed, up to the number of reporters.
+    function setQuorum(uint256 quorum) external onlyOwner {
+        if (quorum > _reporterCount) revert QuorumUnreachable();
+        _quorum = quorum;
+        emit QuorumUpdated(quorum);
+    }
+
+    /// @notice Sets how far from the median a report may be before the reporter is flagged.
+    /// @param maxDeviationBps Allowed distance, in basis points.
+    function setMaxDeviation(uint256 maxDeviationBps) external onlyOwner {
+        _maxDeviationBps = maxDeviationBps;
+        emit MaxDeviationUpdated(maxDeviationBps);
+    }
+
+    /// @notice Reports today's price. The median is recorded once the quorum is reached.
+    /// @param asset Asset index.
+    /// @param price Price at the asset's decimals.
+    function reportPrice(uint8 asset, uint256 price) external onlyRole(REPORTER_ROLE) {
+        if (_quorum == 0) revert ReporterQuorumInactive();
+        _requireAsset(asset);
+        if (address(_priceFeeds[asset]) != address(0)) revert PriceFeedActive();
+        if (price == 0) revert PriceRequired();
+        if (price > type(uint64).max) revert PriceTooLarge();
+
+        uint256 day = currentDay();
+        if (_priceRecorded[asset][day]) revert PriceAlreadyRecorded();
+        if (_reportedPrice[asset][day][msg.sender] != 0) revert AlreadyReported();
+
+        _reportedPrice[asset][day][msg.sender] = price;
+        _reportersByDay[asset][day].push(msg.sender);
+
+        emit PriceReported(msg.sender, asset, day, price);
+
+        if (!(_reportersByDay[asset][day].length < _quorum)) {
+            uint256 median = PriceReports.finalize(
+                _reportersByDay[asset][day],
+                _reportedPrice[asset][day],
+                _outlierCount,
+                _maxDeviationBps,
+                asset,
+                day
+            );
+            _recordPrice(asset, day, median);
+        }
+    }
+
+    /// @notice Reports needed to record a price.
+    /// @return Quorum; zero when a single reporter records prices.
+    function getQuorum() external view returns (uint256) {
+        return _quorum;
+    }
+
+    /// @notice Allowed distance of a report from the median.
+    /// @return Distance in basis points.
+    function getMaxDeviation() external view returns (uint256) {
+        return _maxDeviationBps;
+    }
+
+    /// @notice How often a reporter was flagged.
+    /// @param reporter Reporter.
+    /// @return Flag count.
+    function getOutlierCount(address reporter) external view returns (uint256) {
+        return _outlierCount[reporter];
+    }
+
+    /// @notice Reports submitted for a day.
+    /// @param asset Asset index.
+    /// @param day Reported day.
+    /// @return reporters Reporters, in report order.
+    /// @return prices Price of each report.
+    function getReports(
+        uint8 asset,
+        uint256 day
+    ) external view returns (address[] memory reporters, uint256[] memory prices) {
+        reporters = _reportersByDay[asset][day];
+        prices = new uint256[](reporters.length);
+        for (uint256 i = 0; i < reporters.length; ++i) {
+            prices[i] = _reportedPrice[asset][day][reporters[i]];
+        }
+    }
+
+    /// @notice Recorded price of a day.
+    /// @param asset Asset index.
+    /// @param day Day to read.
+    /// @return price Price at the asset's decimals.
+    /// @return recorded Whether a price was recorded.
+    function getPrice(uint8 asset, uint256 day) external view returns (uint256 price, bool recorded) {
+        price = _dailyPrice[asset][day];
+        recorded = _priceRecorded[asset][day];
+    }
+
+    /// @notice Latest day with a recorded price.
+    /// @param asset Asset index.
+    /// @return Day number.
+    function getLatestDay(uint8 asset) external view returns (uint256) {
+        return _latestDay[asset];
+    }
+
+    function _addAsset(string memory symbol, uint8 decimals) internal returns (uint8 asset) {
+        if (bytes(symbol).length == 0) revert SymbolRequired();
+        if (decimals > 18) revert TooManyDecimals();
+        if (_assets.length > type(uint8).max) revert AssetLimitReached();
+
+        bytes32 key = keccak256(bytes(symbol));
+        if (_symbolRegistered[key]) revert AssetExists();
+        _symbolRegistered[key] = true;
+
+        asset = uint8(_assets.length);
+        _assets.push(AssetInfo({symbol: symbol, decimals: decimals, enabled: true}));
+
+        emit AssetAdded(asset, symbol, decimals);
+    }
+
+    function _recordPrice(uint8 asset, uint256 day, uint256 price) internal {
+        if (price > type(uint64).max) revert PriceTooLarge();
+        if (_priceRecorded[asset][day]) revert PriceAlreadyRecorded();
+
+        _dailyPrice[asset][day] = price;
+        _priceRecorded[asset][day] = true;
+        if (day > _latestDay[asset]) {
+            _latestDay[asset] = day;
+        }
+
+        emit PriceRecorded(asset, day, price);
+    }
+
+    function _requireAsset(uint8 asset) internal view {
+        if (!(asset < _assets.length)) revert InvalidAsset();
+    }
+
+    /// @dev A single reporter only sets prices while neither a reporter quorum nor a price feed decides them.
+    function _requireSingleReporter(uint8 asset) internal view {
+        if (_quorum != 0) revert ReporterQuorumActive();
+        _requireAsset(asset);
+        if (address(_priceFeeds[asset]) != address(0)) revert PriceFeedActive();
+    }
+
+    function _requireActiveAsset(uint8 asset) internal view {
+        _requireAsset(asset);
+        if (!_assets[asset].enabled) revert InactiveAsset();
+    }
+
+    function _reporterQuorum() internal view override returns (uint256) {
+        return _quorum;
+    }
+}
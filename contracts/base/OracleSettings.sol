@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {PredictionScoring} from "../libraries/PredictionScoring.sol";
+import {OraclePrices} from "./OraclePrices.sol";
+
+/// @title OracleSettings
+/// @author PrivOracle
+/// @notice Owner-set scoring and settlement parameters of PrivOracle.
+abstract contract OracleSettings is OraclePrices {
+    uint256 internal _settlementWindow = 1;
+    uint256 internal _keeperTipBps;
+    uint256 internal _maxHorizon = 30;
+    uint256 internal _horizonBonusBps = 500;
+    PredictionScoring.AccuracyTier[] internal _accuracyTiers;
+    PredictionScoring.StreakBonus[] internal _streakBonuses;
+
+    /// @notice The keeper tip changed.
+    /// @param keeperTipBps Share of the stake paid to third-party confirmers, in basis points.
+    event KeeperTipUpdated(uint256 keeperTipBps);
+
+    /// @notice The prediction horizon changed.
+    /// @param maxHorizon Furthest day ahead that can be predicted.
+    /// @param horizonBonusBps Reward bonus per day of horizon beyond the first, in basis points.
+    event HorizonUpdated(uint256 maxHorizon, uint256 horizonBonusBps);
+
+    /// @notice The accuracy tiers changed.
+    /// @param maxDistanceBps Distance limit of each tier, in basis points.
+    /// @param rewardBps Reward share of each tier, in basis points.
+    event AccuracyTiersUpdated(uint256[] maxDistanceBps, uint256[] rewardBps);
+
+    /// @notice The streak bonuses changed.
+    /// @param minStreak Streak length that unlocks each bonus.
+    /// @param bonusBps Extra reward of each bonus, in basis points.
+    event StreakBonusesUpdated(uint256[] minStreak, uint256[] bonusBps);
+
+    /// @notice The pool settlement window changed.
+    /// @param settlementWindow Days after a pool day during which its predictions can be confirmed.
+    event SettlementWindowUpdated(uint256 settlementWindow);
+
+    error TipTooHigh();
+    error InvalidHorizon();
+    error BonusTooHigh();
+    error LengthMismatch();
+
+    // Raised by the linked PredictionScoring library; declared here so they are part of the contract's ABI.
+    error TooManyTiers();
+    error TiersNotAscending();
+    error RewardTooHigh();
+    error StreakTooLong();
+
+    /// @notice Sets the share of the stake paid to third-party confirmers.
+    /// @param keeperTipBps Tip in basis points, up to 500.
+    function setKeeperTip(uint256 keeperTipBps) external onlyOwner {
+        if (keeperTipBps > 500) revert TipTooHigh();
+        _keeperTipBps = keeperTipBps;
+        emit KeeperTipUpdated(keeperTipBps);
+    }
+
+    /// @notice Keeper tip in basis points.
+    /// @return Keeper tip.
+    function getKeeperTip() external view returns (uint256) {
+        return _keeperTipBps;
+    }
+
+    /// @notice Sets how far ahead predictions may target and the bonus per extra day.
+    /// @dev Each day of horizon beyond the first adds `horizonBonusBps` to the reward of a correct prediction. Placed
+    /// predictions keep the bonus in force when they were placed.
+    /// @param maxHorizon Furthest day ahead, from 1 to 365.
+    /// @param horizonBonusBps Bonus per day beyond the first, up to 10000 basis points.
+    function setHorizon(uint256 maxHorizon, uint256 horizonBonusBps) external onlyOwner {
+        if (maxHorizon == 0 || maxHorizon > 365) revert InvalidHorizon();
+        if (horizonBonusBps > 10_000) revert BonusTooHigh();
+        _maxHorizon = maxHorizon;
+        _horizonBonusBps = horizonBonusBps;
+        emit HorizonUpdated(maxHorizon, horizonBonusBps);
+    }
+
+    /// @notice Prediction horizon settings.
+    /// @return maxHorizon Furthest day ahead that can be predicted.
+    /// @return horizonBonusBps Bonus per day beyond the first, in basis points.
+    function getHorizon() external view returns (uint256 maxHorizon, uint256 horizonBonusBps) {
+        maxHorizon = _maxHorizon;
+        horizonBonusBps = _horizonBonusBps;
+    }
+
+    /// @notice Replaces the accuracy tiers.
+    /// @dev Tier `i` pays `rewardBps[i]` of the reward to correct threshold predictions within `maxDistanceBps[i]` of
+    /// the recorded price; beyond the widest tier they earn nothing. Tiers in force at confirmation apply. An empty
+    /// list restores all-or-nothing scoring.
+    /// @param maxDistanceBps Ascending distance limits, in basis points of the recorded price.
+    /// @param rewardBps Reward share of each tier, in basis points.
+    function setAccuracyTiers(uint256[] calldata maxDistanceBps, uint256[] calldata rewardBps) external onlyOwner {
+        PredictionScoring.setAccuracyTiers(_accuracyTiers, maxDistanceBps, rewardBps);
+        emit AccuracyTiersUpdated(maxDistanceBps, rewardBps);
+    }
+
+    /// @notice Current accuracy tiers.
+    /// @return Tiers, narrowest first.
+    function getAccuracyTiers() external view returns (PredictionScoring.AccuracyTier[] memory) {
+        return _accuracyTiers;
+    }
+
+    /// @notice Replaces the streak bonuses.
+    /// @dev Tier `i` adds `bonusBps[i]` to the reward of a correct prediction once the user's streak on that asset,
+    /// counting the prediction itself, reaches `minStreak[i]`. An empty list turns streak bonuses off.
+    /// @param minStreak Ascending streak lengths.
+    /// @param bonusBps Extra reward of each bonus, in basis points.
+    function setStreakBonuses(uint256[] calldata minStreak, uint256[] calldata bonusBps) external onlyOwner {
+        PredictionScoring.setStreakBonuses(_streakBonuses, minStreak, bonusBps);
+        emit StreakBonusesUpdated(minStreak, bonusBps);
+    }
+
+    /// @notice Current streak bonuses.
+    /// @return Bonuses, shortest streak first.
+    function getStreakBonuses() external view returns (PredictionScoring.StreakBonus[] memory) {
+        return _streakBonuses;
+    }
+
+    /// @notice Sets how many days after a pool day its predictions can still be confirmed.
+    /// @param settlementWindow Window in days.
+    function setSettlementWindow(uint256 settlementWindow) external onlyOwner {
+        _settlementWindow = settlementWindow;
+        emit SettlementWindowUpdated(settlementWindow);
+    }
+
+    /// @notice Pool settlement window in days.
+    /// @return Settlement window.
+    function getSettlementWindow() external view returns (uint256) {
+        return _settlementWindow;
+    }
+}
@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+import {IConfidentialToken} from "../interfaces/IConfidentialToken.sol";
+import {OracleSettings} from "./OracleSettings.sol";
+
+/// @title OracleTokenStakes
+/// @author PrivOracle
+/// @notice Confidential stakes of PrivOracle: the stake token, token rewards and the token treasury.
+abstract contract OracleTokenStakes is OracleSettings {
+    IConfidentialToken private _stakeToken;
+    mapping(address user => euint64 owed) private _tokenRewards;
+    // Stake tokens of unsettled predictions plus unclaimed token rewards; the token treasury cannot withdraw them.
+    euint64 private _tokenReserved;
+
+    /// @notice Stake tokens left the treasury, unless the amount exceeded the unreserved token balance.
+    /// @param to Recipient.
+    /// @param amount Amount requested, in token units.
+    event TokenTreasuryWithdrawn(address indexed to, uint64 amount);
+
+    /// @notice The confidential stake token was set.
+    /// @param token Stake token.
+    event StakeTokenUpdated(address token);
+
+    /// @notice Token rewards were paid out, as far as the contract's token balance allowed.
+    /// @param user Predictor.
+    event TokenRewardsClaimed(address indexed user);
+
+    error InvalidToken();
+    error StakeTokenAlreadySet();
+    error StakeTokenNotSet();
+    error NothingOwed();
+    error ExceedsAvailableBalance();
+
+    /// @notice Withdraws stake tokens from the treasury.
+    /// @dev Tokens staked on unsettled predictions or owed as token rewards stay. The balance is encrypted, so an
+    /// amount above what is free moves nothing instead of reverting.
+    /// @param to Recipient.
+    /// @param amount Amount to withdraw, in token units.
+    function withdrawTokenTreasury(address to, uint64 amount) external onlyRole(TREASURY_ROLE) {
+        _requireStakeToken();
+        if (amount == 0) revert ExceedsAvailableBalance();
+
+        euint64 balance = _stakeToken.confidentialBalanceOf(address(this));
+        ebool covered = FHE.and(FHE.ge(balance, _tokenReserved), FHE.le(amount, FHE.sub(balance, _tokenReserved)));
+        euint64 payout = FHE.select(covered, FHE.asEuint64(amount), FHE.asEuint64(0));
+        FHE.allowTransient(payout, address(_stakeToken));
+        _stakeToken.confidentialTransfer(to, payout);
+
+        emit TokenTreasuryWithdrawn(to, amount);
+    }
+
+    /// @notice Sets the confidential token used by `placeConfidentialPrediction`.
+    /// @dev Can be set once: open confidential stakes are refunded through the token they were pulled from.
+    /// @param token ERC-7984 style token.
+    function setStakeToken(address token) external onlyOwner {
+        if (token == address(0)) revert InvalidToken();
+        if (address(_stakeToken) != address(0)) revert StakeTokenAlreadySet();
+        _stakeToken = IConfidentialToken(token);
+        emit StakeTokenUpdated(token);
+    }
+
+    /// @notice Confidential stake token.
+    /// @return Token address, or zero when unset.
+    function getStakeToken() external view returns (address) {
+        return address(_stakeToken);
+    }
+
+    /// @notice Pays the caller's token rewards in the stake token.
+    /// @dev A payout above the contract's token balance moves nothing, and the rewards stay owed for a later claim.
+    function claimTokenRewards() external {
+        _requireNotPaused();
+        euint64 owed = _tokenRewards[msg.sender];
+        if (!FHE.isInitialized(owed)) revert NothingOwed();
+
+        FHE.allowTransient(owed, address(_stakeToken));
+        euint64 paid = _stakeToken.confidentialTransfer(msg.sender, owed);
+        _tokenRewards[msg.sender] = FHE.sub(owed, paid);
+        _tokenReserved = FHE.sub(_tokenReserved, paid);
+
+        FHE.allowThis(_tokenRewards[msg.sender]);
+        FHE.allow(_tokenRewards[msg.sender], msg.sender);
+        FHE.allowThis(_tokenReserved);
+
+        emit TokenRewardsClaimed(msg.sender);
+    }
+
+    /// @notice Encrypted stake token rewards `user` has not claimed yet.
+    /// @param user Predictor.
+    /// @return Owed amount handle, readable by `user`.
+    function getTokenRewards(address user) external view returns (euint64) {
+        return _tokenRewards[user];
+    }
+
+    /// @dev Pulls an encrypted stake from the caller and reserves it; a stake above the balance pulls nothing.
+    function _pullTokenStake(euint64 requested) internal returns (euint64 pulled) {
+        FHE.allowTransient(requested, address(_stakeToken));
+        pulled = _stakeToken.confidentialTransferFrom(msg.sender, address(this), requested);
+        _tokenReserved = FHE.add(_tokenReserved, pulled);
+        FHE.allowThis(_tokenReserved);
+    }
+
+    /// @dev Sends a token stake back to `user` and releases it from the reserve.
+    function _refundTokenStake(address user, euint64 stake) internal {
+        _tokenReserved = FHE.sub(_tokenReserved, stake);
+        FHE.allowThis(_tokenReserved);
+        FHE.allowTransient(stake, address(_stakeToken));
+        _stakeToken.confidentialTransfer(user, stake);
+    }
+
+    function _requireStakeToken() internal view {
+        if (address(_stakeToken) == address(0)) revert StakeTokenNotSet();
+    }
+
+    /// @dev Moves a confirmed token stake out of the reserve and reserves its reward, owed to `user` in stake tokens.
+    function _creditTokenReward(address user, euint64 stake, euint128 reward) internal {
+        euint64 amount = FHE.asEuint64(FHE.min(reward, type(uint64).max));
+        _tokenRewards[user] = FHE.add(_tokenRewards[user], amount);
+        _tokenReserved = FHE.add(FHE.sub(_tokenReserved, stake), amount);
+
+        FHE.allowThis(_tokenRewards[user]);
+        FHE.allow(_tokenRewards[user], user);
+        FHE.allowThis(_tokenReserved);
+    }
+}
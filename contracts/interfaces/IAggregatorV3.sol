@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IAggregatorV3
+/// @author PrivOracle
+/// @notice Subset of Chainlink's AggregatorV3Interface read by PrivOracle.
+interface IAggregatorV3 {
+    /// @notice Number of decimals the answers are quoted with.
+    /// @return Answer decimals.
+    function decimals() external view returns (uint8);
+
+    /// @notice Human-readable name of the feed, such as "ETH / USD".
+    /// @return Feed description.
+    function description() external view returns (string memory);
+
+    /// @notice The most recent round.
+    /// @return roundId Round the answer belongs to.
+    /// @return answer Price at the feed's decimals.
+    /// @return startedAt Time the round started.
+    /// @return updatedAt Time the answer was last updated.
+    /// @return answeredInRound Round in which the answer was computed.
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+}
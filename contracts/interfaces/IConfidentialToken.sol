@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title IConfidentialToken
+/// @author PrivOracle
+/// @notice The subset of the ERC-7984 confidential fungible token interface PrivOracle uses for encrypted stakes.
+interface IConfidentialToken {
+    /// @notice Encrypted balance of `account`.
+    /// @param account Token holder.
+    /// @return Balance handle.
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    /// @notice Whether `spender` may move the tokens of `holder`.
+    /// @param holder Token holder.
+    /// @param spender Account to check.
+    /// @return True for the holder itself and for operators whose approval has not expired.
+    function isOperator(address holder, address spender) external view returns (bool);
+
+    /// @notice Lets `operator` move the caller's tokens until the `until` timestamp.
+    /// @param operator Account to approve.
+    /// @param until Expiry timestamp; a past value revokes the approval.
+    function setOperator(address operator, uint48 until) external;
+
+    /// @notice Moves `amount` from the caller to `to`.
+    /// @dev The caller must be allowed to use `amount`. Returns the amount moved: zero when the balance is short.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount to move.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Moves `amount` from `from` to `to` on behalf of `from`.
+    /// @dev The caller must be an operator of `from` and be allowed to use `amount`.
+    /// @param from Token holder.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount to move.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
+}
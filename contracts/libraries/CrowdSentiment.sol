@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint128} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title CrowdSentiment
+/// @author PrivOracle
+/// @notice Encrypted per-(asset, day) stake totals for each prediction direction, published once the day starts.
+/// @dev Deployed once and linked into PrivOracle. The functions run through delegatecall, so every handle they create
+/// belongs to the calling contract and their events are emitted by it.
+library CrowdSentiment {
+    uint8 internal constant DIRECTION_GREATER = 1;
+    uint8 internal constant DIRECTION_LESS = 2;
+
+    struct Sentiment {
+        euint128 upStake;
+        euint128 downStake;
+        bool requested;
+        bool revealed;
+        uint256 clearUp;
+        uint256 clearDown;
+    }
+
+    /// @notice A day's sentiment totals were made publicly decryptable.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param upStake Encrypted stake predicting a higher price.
+    /// @param downStake Encrypted stake predicting a lower price.
+    event SentimentRevealRequested(uint8 indexed asset, uint256 indexed day, euint128 upStake, euint128 downStake);
+
+    /// @notice A day's sentiment totals were published.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param upStake Stake predicting a higher price.
+    /// @param downStake Stake predicting a lower price.
+    event SentimentRevealed(uint8 indexed asset, uint256 indexed day, uint256 upStake, uint256 downStake);
+
+    error SentimentAlreadyRequested();
+    error SentimentNotRequested();
+    error SentimentAlreadyRevealed();
+
+    /// @notice Adds `stake` to the total of the encrypted `direction`. Directions other than up and down count for
+    /// neither side, matching how they are scored.
+    /// @param sentiment Totals of the prediction's day.
+    /// @param direction Encrypted direction of the prediction.
+    /// @param stake Encrypted stake of the prediction.
+    function add(Sentiment storage sentiment, euint8 direction, euint128 stake) external {
+        euint128 zero = FHE.asEuint128(0);
+        if (!FHE.isInitialized(sentiment.upStake)) {
+            sentiment.upStake = zero;
+            sentiment.downStake = zero;
+        }
+
+        euint128 up = FHE.select(FHE.eq(direction, DIRECTION_GREATER), stake, zero);
+        euint128 down = FHE.select(FHE.eq(direction, DIRECTION_LESS), stake, zero);
+        sentiment.upStake = FHE.add(sentiment.upStake, up);
+        sentiment.downStake = FHE.add(sentiment.downStake, down);
+        FHE.allowThis(sentiment.upStake);
+        FHE.allowThis(sentiment.downStake);
+    }
+
+    /// @notice Makes both totals publicly decryptable, or reveals an empty day straight away.
+    /// @param sentiment Totals to reveal.
+    /// @param asset Asset index, for the events.
+    /// @param day Predicted day, for the events.
+    function requestReveal(Sentiment storage sentiment, uint8 asset, uint256 day) external {
+        if (sentiment.requested) revert SentimentAlreadyRequested();
+        sentiment.requested = true;
+
+        if (!FHE.isInitialized(sentiment.upStake)) {
+            sentiment.revealed = true;
+            emit SentimentRevealed(asset, day, 0, 0);
+            return;
+        }
+
+        FHE.makePubliclyDecryptable(sentiment.upStake);
+        FHE.makePubliclyDecryptable(sentiment.downStake);
+
+        emit SentimentRevealRequested(asset, day, sentiment.upStake, sentiment.downStake);
+    }
+
+    /// @notice Stores the clear totals once the decryption proof checks out.
+    /// @param sentiment Totals to reveal.
+    /// @param asset Asset index, for the events.
+    /// @param day Predicted day, for the events.
+    /// @param upStake Decrypted stake predicting a higher price.
+    /// @param downStake Decrypted stake predicting a lower price.
+    /// @param decryptionProof KMS signatures over both clear values.
+    function reveal(
+        Sentiment storage sentiment,
+        uint8 asset,
+        uint256 day,
+        uint256 upStake,
+        uint256 downStake,
+        bytes calldata decryptionProof
+    ) external {
+        if (!sentiment.requested) revert SentimentNotRequested();
+        if (sentiment.revealed) revert SentimentAlreadyRevealed();
+
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(sentiment.upStake);
+        handles[1] = FHE.toBytes32(sentiment.downStake);
+        FHE.checkSignatures(handles, abi.encode(upStake, downStake), decryptionProof);
+
+        sentiment.revealed = true;
+        sentiment.clearUp = upStake;
+        sentiment.clearDown = downStake;
+
+        emit SentimentRevealed(asset, day, upStake, downStake);
+    }
+}
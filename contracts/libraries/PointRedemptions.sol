@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint128} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title PointRedemptions
+/// @author PrivOracle
+/// @notice Redemption requests for burned points, the ETH owed for them and the points that may still be redeemed.
+/// @dev Deployed once and linked into PrivOracle. The functions run through delegatecall, so they pay out of the
+/// calling contract's balance and their events are emitted by it.
+library PointRedemptions {
+    struct Redemption {
+        address user;
+        bool finalized;
+        euint128 amount;
+        uint256 clearAmount;
+    }
+
+    struct Ledger {
+        mapping(uint256 requestId => Redemption redemption) redemptions;
+        mapping(address user => uint256 amount) owed;
+        uint256 totalOwed;
+        uint256 count;
+        // Points minted as rewards plus settled pool rewards not yet claimed, less finalized redemptions.
+        euint128 outstandingPoints;
+    }
+
+    /// @notice Points were burned for a redemption; the amount is publicly decryptable.
+    /// @param user Redeemer.
+    /// @param requestId Redemption id.
+    /// @param amount Encrypted amount burned.
+    event RedemptionRequested(address indexed user, uint256 indexed requestId, euint128 amount);
+
+    /// @notice A redemption's amount was decrypted and added to what the user is owed.
+    /// @param user Redeemer.
+    /// @param requestId Redemption id.
+    /// @param amount Amount burned, in wei.
+    event RedemptionFinalized(address indexed user, uint256 indexed requestId, uint256 amount);
+
+    /// @notice Owed ETH was paid out.
+    /// @param user Redeemer.
+    /// @param amount Amount paid, in wei.
+    /// @param outstanding Amount still owed, in wei.
+    event RedemptionPaid(address indexed user, uint256 amount, uint256 outstanding);
+
+    /// @notice The outstanding points total was made publicly decryptable for a treasury withdrawal.
+    /// @param outstandingPoints Encrypted total of points that may still be redeemed.
+    event OutstandingPointsRevealRequested(euint128 outstandingPoints);
+
+    error RedemptionMissing();
+    error AlreadyRedeemed();
+    error PayoutFailed();
+
+    /// @notice Records the burned `amount` for `user` and makes it publicly decryptable.
+    /// @param ledger Redemption ledger.
+    /// @param user Redeemer.
+    /// @param amount Encrypted amount burned.
+    /// @return requestId Id of the new redemption.
+    function open(Ledger storage ledger, address user, euint128 amount) external returns (uint256 requestId) {
+        FHE.allowThis(amount);
+        FHE.allow(amount, user);
+        FHE.makePubliclyDecryptable(amount);
+
+        requestId = ++ledger.count;
+        ledger.redemptions[requestId] = Redemption({user: user, finalized: false, amount: amount, clearAmount: 0});
+
+        emit RedemptionRequested(user, requestId, amount);
+    }
+
+    /// @notice Checks the decrypted amount, adds it to what the user is owed and pays out as much as the balance
+    /// allows.
+    /// @param ledger Redemption ledger.
+    /// @param requestId Redemption to finalize.
+    /// @param amount Decrypted amount burned.
+    /// @param decryptionProof KMS signatures over the clear amount.
+    function finalize(
+        Ledger storage ledger,
+        uint256 requestId,
+        uint256 amount,
+        bytes calldata decryptionProof
+    ) external {
+        Redemption storage redemption = ledger.redemptions[requestId];
+        if (redemption.user == address(0)) revert RedemptionMissing();
+        if (redemption.finalized) revert AlreadyRedeemed();
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(redemption.amount);
+        FHE.checkSignatures(handles, abi.encode(amount), decryptionProof);
+
+        redemption.finalized = true;
+        redemption.clearAmount = amount;
+        // Whatever the balance cannot cover stays owed and can be withdrawn once the contract is funded.
+        ledger.owed[redemption.user] += amount;
+        ledger.totalOwed += amount;
+        ledger.outstandingPoints = FHE.sub(ledger.outstandingPoints, uint128(amount));
+        FHE.allowThis(ledger.outstandingPoints);
+
+        emit RedemptionFinalized(redemption.user, requestId, amount);
+
+        payOut(ledger, redemption.user);
+    }
+
+    /// @notice Adds points that may be redeemed later.
+    /// @param ledger Redemption ledger.
+    /// @param amount Encrypted points minted or promised.
+    function addOutstanding(Ledger storage ledger, euint128 amount) external {
+        ledger.outstandingPoints = FHE.add(ledger.outstandingPoints, amount);
+        FHE.allowThis(ledger.outstandingPoints);
+    }
+
+    /// @notice Makes the outstanding points total publicly decryptable.
+    /// @param ledger Redemption ledger.
+    function requestOutstandingReveal(Ledger storage ledger) external {
+        if (!FHE.isInitialized(ledger.outstandingPoints)) {
+            ledger.outstandingPoints = FHE.asEuint128(0);
+            FHE.allowThis(ledger.outstandingPoints);
+        }
+        FHE.makePubliclyDecryptable(ledger.outstandingPoints);
+
+        emit OutstandingPointsRevealRequested(ledger.outstandingPoints);
+    }
+
+    /// @notice Checks the decrypted outstanding points total and returns the ETH that has to stay for redeemers. The
+    /// proof only matches while the total is unchanged since it was revealed.
+    /// @param ledger Redemption ledger.
+    /// @param outstandingPoints Decrypted outstanding points total.
+    /// @param decryptionProof KMS signatures over the total.
+    /// @return ETH owed to redeemers plus the outstanding points, in wei.
+    function reserved(
+        Ledger storage ledger,
+        uint256 outstandingPoints,
+        bytes calldata decryptionProof
+    ) external returns (uint256) {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(ledger.outstandingPoints);
+        FHE.checkSignatures(handles, abi.encode(outstandingPoints), decryptionProof);
+
+        return ledger.totalOwed + outstandingPoints;
+    }
+
+    /// @notice Pays `user` what they are owed, up to the contract balance.
+    /// @param ledger Redemption ledger.
+    /// @param user Redeemer to pay.
+    function payOut(Ledger storage ledger, address user) public {
+        uint256 owed = ledger.owed[user];
+        uint256 payment = owed < address(this).balance ? owed : address(this).balance;
+        if (payment == 0) {
+            return;
+        }
+
+        ledger.owed[user] = owed - payment;
+        ledger.totalOwed -= payment;
+
+        (bool sent, ) = payable(user).call{value: payment}("");
+        if (!sent) revert PayoutFailed();
+
+        emit RedemptionPaid(user, payment, owed - payment);
+    }
+}
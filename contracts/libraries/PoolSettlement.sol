@@ -0,0 +1,135 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint128} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title PoolSettlement
+/// @author PrivOracle
+/// @notice Encrypted stake totals and parimutuel payouts for PrivOracle pool days.
+/// @dev Deployed once and linked into PrivOracle. The functions run through delegatecall, so every handle they create
+/// belongs to the calling contract and their events are emitted by it.
+library PoolSettlement {
+    struct Pool {
+        bool enabled;
+        bool settlementRequested;
+        bool settled;
+        euint128 totalStake;
+        euint128 winningStake;
+        uint256 clearTotal;
+        uint256 clearWinning;
+    }
+
+    /// @notice A pool's totals were made publicly decryptable.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    /// @param totalStake Encrypted total of the placed stakes.
+    /// @param winningStake Encrypted total of the correct stakes.
+    event PoolSettlementRequested(uint8 indexed asset, uint256 indexed day, euint128 totalStake, euint128 winningStake);
+
+    /// @notice A pool's clear totals were stored; claims are open.
+    /// @param asset Asset index.
+    /// @param day Pool day.
+    /// @param totalStake Total of the placed stakes.
+    /// @param winningStake Total of the correct stakes.
+    event PoolSettled(uint8 indexed asset, uint256 indexed day, uint256 totalStake, uint256 winningStake);
+
+    error PoolModeDisabled();
+    error SettlementAlreadyRequested();
+    error SettlementNotRequested();
+    error PoolAlreadySettled();
+
+    /// @notice Adds a placed stake to the pool total. Stakes that are never confirmed stay in the total and go to the
+    /// winners.
+    /// @param pool Pool of the prediction's day.
+    /// @param stake Clear stake of the prediction.
+    function addStake(Pool storage pool, uint256 stake) external {
+        if (!FHE.isInitialized(pool.totalStake)) {
+            pool.totalStake = FHE.asEuint128(0);
+            pool.winningStake = FHE.asEuint128(0);
+            FHE.allowThis(pool.winningStake);
+        }
+
+        pool.totalStake = FHE.add(pool.totalStake, FHE.asEuint128(uint128(stake)));
+        FHE.allowThis(pool.totalStake);
+    }
+
+    /// @notice Takes ETH that left the contract, a refund or a keeper tip, back out of the pool total.
+    /// @param pool Pool of the prediction's day.
+    /// @param stake Clear amount paid out of the prediction's stake.
+    function removeStake(Pool storage pool, uint256 stake) external {
+        pool.totalStake = FHE.sub(pool.totalStake, FHE.asEuint128(uint128(stake)));
+        FHE.allowThis(pool.totalStake);
+    }
+
+    /// @notice Adds a confirmed stake to the winners; `winningStake` is zero for a wrong outcome.
+    /// @param pool Pool of the prediction's day.
+    /// @param winningStake Encrypted stake when the prediction is correct, zero otherwise.
+    function addWinningStake(Pool storage pool, euint128 winningStake) external {
+        pool.winningStake = FHE.add(pool.winningStake, winningStake);
+        FHE.allowThis(pool.winningStake);
+    }
+
+    /// @notice Makes both totals publicly decryptable, or settles an empty pool straight away.
+    /// @param pool Pool to settle.
+    /// @param asset Asset index, for the events.
+    /// @param day Pool day, for the events.
+    function requestSettlement(Pool storage pool, uint8 asset, uint256 day) external {
+        if (!pool.enabled) revert PoolModeDisabled();
+        if (pool.settlementRequested) revert SettlementAlreadyRequested();
+
+        pool.settlementRequested = true;
+
+        // Nobody staked, so there is nothing to decrypt and nothing to pay out.
+        if (!FHE.isInitialized(pool.totalStake)) {
+            pool.settled = true;
+            emit PoolSettled(asset, day, 0, 0);
+            return;
+        }
+
+        FHE.makePubliclyDecryptable(pool.totalStake);
+        FHE.makePubliclyDecryptable(pool.winningStake);
+
+        emit PoolSettlementRequested(asset, day, pool.totalStake, pool.winningStake);
+    }
+
+    /// @notice Stores the clear totals once the decryption proof checks out.
+    /// @param pool Pool to settle.
+    /// @param asset Asset index, for the events.
+    /// @param day Pool day, for the events.
+    /// @param totalStake Decrypted total of the placed stakes.
+    /// @param winningStake Decrypted total of the correct stakes.
+    /// @param decryptionProof KMS signatures over both clear values.
+    function settle(
+        Pool storage pool,
+        uint8 asset,
+        uint256 day,
+        uint256 totalStake,
+        uint256 winningStake,
+        bytes calldata decryptionProof
+    ) external {
+        if (!pool.settlementRequested) revert SettlementNotRequested();
+        if (pool.settled) revert PoolAlreadySettled();
+
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(pool.totalStake);
+        handles[1] = FHE.toBytes32(pool.winningStake);
+        FHE.checkSignatures(handles, abi.encode(totalStake, winningStake), decryptionProof);
+
+        pool.settled = true;
+        pool.clearTotal = totalStake;
+        pool.clearWinning = winningStake;
+
+        emit PoolSettled(asset, day, totalStake, winningStake);
+    }
+
+    /// @notice Encrypted payout of a confirmed stake in a settled pool: its share of the total when `isCorrect`, zero
+    /// otherwise, so claims do not reveal who won.
+    /// @param pool Settled pool of the prediction's day.
+    /// @param isCorrect Encrypted outcome of the prediction.
+    /// @param stake Clear stake of the prediction.
+    /// @return Encrypted reward.
+    function payout(Pool storage pool, ebool isCorrect, uint256 stake) external returns (euint128) {
+        uint256 share = pool.clearWinning == 0 ? 0 : (stake * pool.clearTotal) / pool.clearWinning;
+        return FHE.select(isCorrect, FHE.asEuint128(uint128(share)), FHE.asEuint128(0));
+    }
+}
@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {PredictionScoring} from "./PredictionScoring.sol";
+
+/// @title PredictionReveals
+/// @author PrivOracle
+/// @notice Opt-in public decryption of settled PrivOracle predictions.
+/// @dev Deployed once and linked into PrivOracle. The functions run through delegatecall, so the decryption
+/// permissions and events belong to the calling contract.
+library PredictionReveals {
+    struct Reveal {
+        bool requested;
+        bool revealed;
+        bool band;
+        uint64 price;
+        uint8 direction;
+        uint64 upper;
+        bool correct;
+    }
+
+    /// @notice A prediction and its outcome were made publicly decryptable.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param handles Handles to decrypt, in the order `finalize` checks them.
+    event PredictionRevealRequested(address indexed user, uint8 indexed asset, uint256 indexed day, bytes32[] handles);
+
+    /// @notice A prediction and its outcome were published.
+    /// @param user Predictor.
+    /// @param asset Asset index.
+    /// @param day Predicted day.
+    /// @param price Predicted price, or the low bound of a band.
+    /// @param direction Predicted direction: 1 above, 2 below; 0 for bands.
+    /// @param upper High bound of a band; 0 for threshold predictions.
+    /// @param band Whether the prediction is a band.
+    /// @param correct Whether the prediction was correct.
+    event PredictionRevealed(
+        address indexed user,
+        uint8 indexed asset,
+        uint256 indexed day,
+        uint64 price,
+        uint8 direction,
+        uint64 upper,
+        bool band,
+        bool correct
+    );
+
+    error RevealAlreadyRequested();
+    error RevealNotRequested();
+    error PredictionAlreadyRevealed();
+
+    /// @notice Makes the guess and its outcome publicly decryptable. The event lists the handles in the order
+    /// `finalize` checks them.
+    /// @param reveal Reveal record of the prediction.
+    /// @param guess Encrypted guess of the prediction.
+    /// @param outcome Encrypted outcome of the prediction.
+    /// @param user Predictor, for the events.
+    /// @param asset Asset index, for the events.
+    /// @param day Predicted day, for the events.
+    function request(
+        Reveal storage reveal,
+        PredictionScoring.Guess calldata guess,
+        ebool outcome,
+        address user,
+        uint8 asset,
+        uint256 day
+    ) external {
+        if (reveal.requested) revert RevealAlreadyRequested();
+        reveal.requested = true;
+        reveal.band = guess.band;
+
+        FHE.makePubliclyDecryptable(guess.price);
+        if (guess.band) {
+            FHE.makePubliclyDecryptable(guess.upper);
+        } else {
+            FHE.makePubliclyDecryptable(guess.direction);
+        }
+        FHE.makePubliclyDecryptable(outcome);
+
+        emit PredictionRevealRequested(user, asset, day, _handles(guess, outcome));
+    }
+
+    /// @notice Stores the clear guess and outcome once the decryption proof checks out. Bands use `upper` and
+    /// threshold guesses use `direction`; the other value is ignored.
+    /// @param reveal Reveal record of the prediction.
+    /// @param guess Encrypted guess of the prediction.
+    /// @param outcome Encrypted outcome of the prediction.
+    /// @param user Predictor, for the events.
+    /// @param asset Asset index, for the events.
+    /// @param day Predicted day, for the events.
+    /// @param price Decrypted price, or the low bound of a band.
+    /// @param direction Decrypted direction of a threshold guess.
+    /// @param upper Decrypted high bound of a band.
+    /// @param correct Decrypted outcome.
+    /// @param decryptionProof KMS signatures over the clear values.
+    function finalize(
+        Reveal storage reveal,
+        PredictionScoring.Guess calldata guess,
+        ebool outcome,
+        address user,
+        uint8 asset,
+        uint256 day,
+        uint64 price,
+        uint8 direction,
+        uint64 upper,
+        bool correct,
+        bytes calldata decryptionProof
+    ) external {
+        if (!reveal.requested) revert RevealNotRequested();
+        if (reveal.revealed) revert PredictionAlreadyRevealed();
+
+        bytes memory cleartexts =
+            guess.band ? abi.encode(price, upper, correct) : abi.encode(price, direction, correct);
+        FHE.checkSignatures(_handles(guess, outcome), cleartexts, decryptionProof);
+
+        reveal.revealed = true;
+        reveal.price = price;
+        reveal.correct = correct;
+        if (guess.band) {
+            reveal.upper = upper;
+        } else {
+            reveal.direction = direction;
+        }
+
+        emit PredictionRevealed(user, asset, day, price, reveal.direction, reveal.upper, guess.band, correct);
+    }
+
+    /// @dev Price, then direction (or the high bound of a band), then the outcome.
+    function _handles(
+        PredictionScoring.Guess calldata guess,
+        ebool outcome
+    ) private pure returns (bytes32[] memory handles) {
+        handles = new bytes32[](3);
+        handles[0] = FHE.toBytes32(guess.price);
+        handles[1] = guess.band ? FHE.toBytes32(guess.upper) : FHE.toBytes32(guess.direction);
+        handles[2] = FHE.toBytes32(outcome);
+    }
+}
@@ -0,0 +1,221 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, euint32, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title PredictionScoring
+/// @author PrivOracle
+/// @notice Encrypted outcome checks and reward scaling for PrivOracle predictions.
+/// @dev Deployed once and linked into PrivOracle. The functions run through delegatecall, so every handle they create
+/// belongs to the calling contract.
+library PredictionScoring {
+    uint8 internal constant DIRECTION_GREATER = 1;
+    uint8 internal constant DIRECTION_LESS = 2;
+    uint256 internal constant MAX_ACCURACY_TIERS = 8;
+    uint256 internal constant MAX_ACCURACY_REWARD_BPS = 100_000;
+    uint256 internal constant MAX_STREAK_BONUSES = 8;
+    uint256 internal constant MAX_STREAK_BONUS_BPS = 100_000;
+
+    /// @notice A threshold prediction within `maxDistanceBps` of the recorded price earns `rewardBps` of its reward.
+    struct AccuracyTier {
+        uint256 maxDistanceBps;
+        uint256 rewardBps;
+    }
+
+    /// @notice Once a streak reaches `minStreak` correct days in a row, rewards earn an extra `bonusBps`.
+    struct StreakBonus {
+        uint256 minStreak;
+        uint256 bonusBps;
+    }
+
+    /// @notice Encrypted count of consecutive correct days and the last day that counted towards it.
+    struct Streak {
+        euint32 count;
+        uint256 lastDay;
+    }
+
+    struct Guess {
+        euint64 price;
+        euint8 direction;
+        euint64 upper;
+        bool band;
+    }
+
+    error LengthMismatch();
+    error TooManyTiers();
+    error TiersNotAscending();
+    error RewardTooHigh();
+    error StreakTooLong();
+    error BonusTooHigh();
+
+    /// @notice Scores a guess against `actual` and returns the encrypted reward, zero when the guess is wrong.
+    /// @dev `stake` is scaled by `rewardBps` first. Bands then apply their width multiplier; threshold guesses apply
+    /// the accuracy tiers when any are set.
+    /// @param guess Encrypted guess of the prediction.
+    /// @param stake Encrypted stake to scale.
+    /// @param rewardBps Share of the stake the reward starts from, in basis points.
+    /// @param actual Recorded price of the day.
+    /// @param tiers Accuracy tiers for threshold guesses.
+    /// @return isCorrect Encrypted outcome.
+    /// @return reward Encrypted reward.
+    function score(
+        Guess calldata guess,
+        euint128 stake,
+        uint256 rewardBps,
+        uint64 actual,
+        AccuracyTier[] storage tiers
+    ) external returns (ebool isCorrect, euint128 reward) {
+        reward = rewardBps == 10_000 ? stake : FHE.div(FHE.mul(stake, uint128(rewardBps)), 10_000);
+
+        if (guess.band) {
+            euint128 multiplier;
+            (isCorrect, multiplier) = _bandOutcome(guess.price, guess.upper, actual);
+            reward = FHE.mul(reward, multiplier);
+        } else {
+            isCorrect = _thresholdOutcome(guess.price, guess.direction, actual);
+            if (tiers.length > 0) {
+                reward = FHE.div(FHE.mul(reward, _accuracyBps(guess.price, actual, tiers)), 10_000);
+            }
+        }
+
+        reward = FHE.select(isCorrect, reward, FHE.asEuint128(0));
+    }
+
+    /// @notice Validates and stores accuracy tiers; an empty list turns accuracy scoring off.
+    /// @param tiers Stored tiers, replaced in full.
+    /// @param maxDistanceBps Ascending distance limits, in basis points of the recorded price.
+    /// @param rewardBps Share of the reward each tier pays, in basis points.
+    function setAccuracyTiers(
+        AccuracyTier[] storage tiers,
+        uint256[] calldata maxDistanceBps,
+        uint256[] calldata rewardBps
+    ) external {
+        if (maxDistanceBps.length != rewardBps.length) revert LengthMismatch();
+        if (maxDistanceBps.length > MAX_ACCURACY_TIERS) revert TooManyTiers();
+
+        while (tiers.length > 0) {
+            tiers.pop();
+        }
+        for (uint256 i = 0; i < maxDistanceBps.length; ++i) {
+            if (!(i == 0 || maxDistanceBps[i] > maxDistanceBps[i - 1])) revert TiersNotAscending();
+            if (rewardBps[i] > MAX_ACCURACY_REWARD_BPS) revert RewardTooHigh();
+            tiers.push(AccuracyTier({maxDistanceBps: maxDistanceBps[i], rewardBps: rewardBps[i]}));
+        }
+    }
+
+    /// @notice Records the outcome for `day` in `streak` and returns `reward` with the streak bonus applied.
+    /// @dev A correct outcome extends the streak and a wrong one resets it. Skipping a day since the last counted one
+    /// resets it first. Days confirmed out of order can still break the streak but never extend it.
+    /// @param streak Streak of the user and asset.
+    /// @param bonuses Streak bonuses, by ascending streak length.
+    /// @param isCorrect Encrypted outcome of the prediction.
+    /// @param day Predicted day.
+    /// @param reward Encrypted reward before the bonus.
+    /// @param user Predictor, who may decrypt the streak.
+    /// @return Encrypted reward with the bonus applied.
+    function applyStreak(
+        Streak storage streak,
+        StreakBonus[] storage bonuses,
+        ebool isCorrect,
+        uint256 day,
+        euint128 reward,
+        address user
+    ) external returns (euint128) {
+        euint32 zero = FHE.asEuint32(0);
+        euint32 count = FHE.isInitialized(streak.count) ? streak.count : zero;
+
+        if (day > streak.lastDay) {
+            if (streak.lastDay != 0 && day > streak.lastDay + 1) {
+                count = zero;
+            }
+            count = FHE.select(isCorrect, FHE.add(count, 1), zero);
+            streak.lastDay = day;
+        } else {
+            count = FHE.select(isCorrect, count, zero);
+        }
+
+        streak.count = count;
+        FHE.allowThis(count);
+        FHE.allow(count, user);
+
+        if (bonuses.length == 0) {
+            return reward;
+        }
+        euint128 bps = FHE.asEuint128(10_000);
+        for (uint256 i = 0; i < bonuses.length; ++i) {
+            ebool reached = FHE.ge(count, uint32(bonuses[i].minStreak));
+            bps = FHE.select(reached, FHE.asEuint128(uint128(10_000 + bonuses[i].bonusBps)), bps);
+        }
+        return FHE.div(FHE.mul(reward, bps), 10_000);
+    }
+
+    /// @notice Validates and stores streak bonuses; an empty list turns them off.
+    /// @param bonuses Stored bonuses, replaced in full.
+    /// @param minStreak Ascending streak lengths that unlock each bonus.
+    /// @param bonusBps Extra reward of each bonus, in basis points.
+    function setStreakBonuses(
+        StreakBonus[] storage bonuses,
+        uint256[] calldata minStreak,
+        uint256[] calldata bonusBps
+    ) external {
+        if (minStreak.length != bonusBps.length) revert LengthMismatch();
+        if (minStreak.length > MAX_STREAK_BONUSES) revert TooManyTiers();
+
+        while (bonuses.length > 0) {
+            bonuses.pop();
+        }
+        for (uint256 i = 0; i < minStreak.length; ++i) {
+            if (!(minStreak[i] > (i == 0 ? 0 : minStreak[i - 1]))) revert TiersNotAscending();
+            if (minStreak[i] > type(uint32).max) revert StreakTooLong();
+            if (bonusBps[i] > MAX_STREAK_BONUS_BPS) revert BonusTooHigh();
+            bonuses.push(StreakBonus({minStreak: minStreak[i], bonusBps: bonusBps[i]}));
+        }
+    }
+
+    /// @dev Whether `actual` landed on the predicted side of `price`. A tie is never correct.
+    function _thresholdOutcome(euint64 price, euint8 direction, uint64 actual) private returns (ebool) {
+        euint64 actualEnc = FHE.asEuint64(actual);
+
+        ebool isGreater = FHE.gt(actualEnc, price);
+        ebool isLess = FHE.lt(actualEnc, price);
+        ebool dirGreater = FHE.eq(direction, FHE.asEuint8(DIRECTION_GREATER));
+        ebool dirLess = FHE.eq(direction, FHE.asEuint8(DIRECTION_LESS));
+
+        return FHE.or(FHE.and(dirGreater, isGreater), FHE.and(dirLess, isLess));
+    }
+
+    /// @dev Whether `actual` lies in `[low, high]`, and the reward multiplier for the band's width. Widths are measured
+    /// against the recorded price: up to 1% pays 4x, 2.5% pays 3x, 5% pays 2x, wider pays 1x. A band with
+    /// `low > high` never contains the price.
+    function _bandOutcome(
+        euint64 low,
+        euint64 high,
+        uint64 actual
+    ) private returns (ebool inBand, euint128 multiplier) {
+        inBand = FHE.and(FHE.le(low, actual), FHE.ge(high, actual));
+
+        euint64 width = FHE.sub(high, low);
+        multiplier = FHE.asEuint128(1);
+        multiplier = FHE.select(FHE.le(width, _share(actual, 500)), FHE.asEuint128(2), multiplier);
+        multiplier = FHE.select(FHE.le(width, _share(actual, 250)), FHE.asEuint128(3), multiplier);
+        multiplier = FHE.select(FHE.le(width, _share(actual, 100)), FHE.asEuint128(4), multiplier);
+    }
+
+    /// @dev Reward share of the narrowest tier containing the encrypted distance between `price` and `actual`, or
+    /// zero beyond the widest tier. Tier edges count as inside.
+    function _accuracyBps(euint64 price, uint64 actual, AccuracyTier[] storage tiers) private returns (euint128 bps) {
+        euint64 distance = FHE.select(FHE.gt(price, actual), FHE.sub(price, actual), FHE.sub(actual, price));
+
+        bps = FHE.asEuint128(0);
+        for (uint256 i = tiers.length; i > 0; --i) {
+            AccuracyTier storage tier = tiers[i - 1];
+            ebool inTier = FHE.le(distance, _share(actual, tier.maxDistanceBps));
+            bps = FHE.select(inTier, FHE.asEuint128(uint128(tier.rewardBps)), bps);
+        }
+    }
+
+    function _share(uint64 value, uint256 bps) private pure returns (uint64) {
+        uint256 share = (uint256(value) * bps) / 10_000;
+        return share > type(uint64).max ? type(uint64).max : uint64(share);
+    }
+}
@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IAggregatorV3} from "../interfaces/IAggregatorV3.sol";
+
+/// @title PriceReports
+/// @author PrivOracle
+/// @notice Reporter medians and price feed reads for PrivOracle.
+/// @dev Deployed once and linked into PrivOracle. The functions run through delegatecall, so their events are emitted
+/// by the calling contract.
+library PriceReports {
+    /// @notice A reporter's price was further from the day's median than the allowed deviation.
+    /// @param reporter Flagged reporter.
+    /// @param asset Asset index.
+    /// @param day Day the price was reported for.
+    /// @param price Price the reporter submitted.
+    /// @param medianPrice Median the day was recorded at.
+    event ReporterFlagged(
+        address indexed reporter,
+        uint8 indexed asset,
+        uint256 indexed day,
+        uint256 price,
+        uint256 medianPrice
+    );
+
+    error NoPriceFeed();
+    error InvalidFeedAnswer();
+    error FeedRoundOutsideToday();
+    error StaleFeedPrice();
+
+    /// @notice Median of the day's reports. Reporters further than `maxDeviationBps` from it are flagged.
+    /// @param reporters Reporters of the day, in report order.
+    /// @param reported Price each reporter submitted for the day.
+    /// @param outlierCount Number of times each reporter has been flagged.
+    /// @param maxDeviationBps Largest distance from the median, in basis points, that is not flagged.
+    /// @param asset Asset index, for the events.
+    /// @param day Reported day, for the events.
+    /// @return median Median of the reported prices.
+    function finalize(
+        address[] storage reporters,
+        mapping(address => uint256) storage reported,
+        mapping(address => uint256) storage outlierCount,
+        uint256 maxDeviationBps,
+        uint8 asset,
+        uint256 day
+    ) external returns (uint256 median) {
+        uint256 count = reporters.length;
+        uint256[] memory prices = new uint256[](count);
+        for (uint256 i = 0; i < count; ++i) {
+            prices[i] = reported[reporters[i]];
+        }
+
+        median = _median(prices);
+
+        for (uint256 i = 0; i < count; ++i) {
+            uint256 price = reported[reporters[i]];
+            uint256 deviation = price > median ? price - median : median - price;
+            if (deviation * 10_000 > median * maxDeviationBps) {
+                ++outlierCount[reporters[i]];
+                emit ReporterFlagged(reporters[i], asset, day, price, median);
+            }
+        }
+    }
+
+    /// @notice Today's feed answer rescaled to `assetDecimals`, rejecting invalid, stale or previous-day rounds.
+    /// @param feedAddress Chainlink-style feed of the asset.
+    /// @param assetDecimals Decimals the asset's prices are quoted with.
+    /// @param maxFeedAge Oldest answer accepted, in seconds.
+    /// @return price Feed answer at the asset's precision.
+    function readFeed(
+        address feedAddress,
+        uint8 assetDecimals,
+        uint256 maxFeedAge
+    ) external view returns (uint256 price) {
+        if (feedAddress == address(0)) revert NoPriceFeed();
+        IAggregatorV3 feed = IAggregatorV3(feedAddress);
+
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = feed.latestRoundData();
+        if (answer < 1 || answeredInRound < roundId) revert InvalidFeedAnswer();
+        if (updatedAt / 1 days != block.timestamp / 1 days) revert FeedRoundOutsideToday();
+        if (block.timestamp - updatedAt > maxFeedAge) revert StaleFeedPrice();
+
+        uint8 feedDecimals = feed.decimals();
+        price = uint256(answer);
+        if (feedDecimals > assetDecimals) {
+            price /= 10 ** (feedDecimals - assetDecimals);
+        } else {
+            price *= 10 ** (assetDecimals - feedDecimals);
+        }
+    }
+
+    /// @dev Sorts `values` in place; quorums are small, so insertion sort is enough.
+    function _median(uint256[] memory values) private pure returns (uint256) {
+        for (uint256 i = 1; i < values.length; ++i) {
+            uint256 value = values[i];
+            uint256 j = i;
+            while (j > 0 && values[j - 1] > value) {
+                values[j] = values[j - 1];
+                --j;
+            }
+            values[j] = value;
+        }
+
+        uint256 middle = values.length / 2;
+        if (values.length % 2 == 1) {
+            return values[middle];
+        }
+        return (values[middle - 1] + values[middle]) / 2;
+    }
+}
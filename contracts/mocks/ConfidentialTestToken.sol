@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "../interfaces/IConfidentialToken.sol";
+
+/// @title ConfidentialTestToken
+/// @author PrivOracle
+/// @notice Minimal ERC-7984 style token with encrypted balances, used to stake on PrivOracle in tests and on testnets.
+/// @dev Uses 18 decimals so one unit matches one wei of PrivOracle points. Transfers that exceed the sender's balance
+/// move nothing instead of reverting, so a failed transfer does not reveal the balance.
+contract ConfidentialTestToken is ZamaEthereumConfig, IConfidentialToken {
+    string private _name;
+    string private _symbol;
+    address private _owner;
+
+    mapping(address account => euint64 balance) private _balances;
+    mapping(address holder => mapping(address operator => uint48 until)) private _operators;
+
+    /// @notice Tokens moved, were minted (`from` is zero) or were burned (`to` is zero).
+    /// @param from Sender.
+    /// @param to Recipient.
+    /// @param amount Encrypted amount moved.
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    /// @notice `holder` approved `operator` until the `until` timestamp.
+    /// @param holder Token holder.
+    /// @param operator Approved account.
+    /// @param until Expiry timestamp.
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+
+    error OwnerOnly();
+    error InvalidRecipient();
+    error AmountNotAllowed();
+    error NotOperator();
+
+    constructor(string memory tokenName, string memory tokenSymbol) {
+        _name = tokenName;
+        _symbol = tokenSymbol;
+        _owner = msg.sender;
+    }
+
+    /// @notice Token name.
+    /// @return Name set at deployment.
+    function name() external view returns (string memory) {
+        return _name;
+    }
+
+    /// @notice Token symbol.
+    /// @return Symbol set at deployment.
+    function symbol() external view returns (string memory) {
+        return _symbol;
+    }
+
+    /// @notice Number of decimals balances are counted in.
+    /// @return Always 18.
+    function decimals() external pure returns (uint8) {
+        return 18;
+    }
+
+    /// @notice Mints `amount` tokens to `to`. Only the deployer can mint.
+    /// @param to Recipient.
+    /// @param amount Clear amount to mint.
+    function mint(address to, uint64 amount) external {
+        if (msg.sender != _owner) revert OwnerOnly();
+        if (to == address(0)) revert InvalidRecipient();
+        _update(address(0), to, FHE.asEuint64(amount));
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp < uint256(_operators[holder][spender]) + 1;
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /// @notice Moves an amount encrypted by the caller to `to`; nothing moves when the balance is short.
+    /// @param to Recipient.
+    /// @param encryptedAmount Encrypted amount to move.
+    /// @param inputProof Proof for `encryptedAmount`.
+    /// @return transferred Encrypted amount moved.
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external returns (euint64 transferred) {
+        transferred = _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        transferred = _transfer(msg.sender, to, amount);
+    }
+
+    /// @inheritdoc IConfidentialToken
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        if (!isOperator(from, msg.sender)) revert NotOperator();
+        if (!FHE.isSenderAllowed(amount)) revert AmountNotAllowed();
+        transferred = _transfer(from, to, amount);
+    }
+
+    function _transfer(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidRecipient();
+        transferred = _update(from, to, amount);
+        FHE.allowTransient(transferred, msg.sender);
+    }
+
+    function _update(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        transferred = amount;
+        if (from != address(0)) {
+            ebool enough = FHE.le(amount, _balances[from]);
+            transferred = FHE.select(enough, amount, FHE.asEuint64(0));
+            _balances[from] = FHE.sub(_balances[from], transferred);
+            FHE.allowThis(_balances[from]);
+            FHE.allow(_balances[from], from);
+            FHE.allow(transferred, from);
+        }
+
+        _balances[to] = FHE.add(_balances[to], transferred);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, to);
+
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+}
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IAggregatorV3} from "../interfaces/IAggregatorV3.sol";
+
+/// @title MockAggregatorV3
+/// @author PrivOracle
+/// @notice Settable Chainlink-style feed for tests and local networks.
+contract MockAggregatorV3 is IAggregatorV3 {
+    uint8 private immutable _DECIMALS;
+    string private _description;
+
+    uint80 private _roundId;
+    int256 private _answer;
+    uint256 private _updatedAt;
+
+    constructor(uint8 feedDecimals, string memory feedDescription) {
+        _DECIMALS = feedDecimals;
+        _description = feedDescription;
+    }
+
+    /// @notice Starts a new round with `answer`, updated at `updatedAt`.
+    /// @param answer Price at the feed's decimals.
+    /// @param updatedAt Update timestamp of the round.
+    function setRoundData(int256 answer, uint256 updatedAt) external {
+        ++_roundId;
+        _answer = answer;
+        _updatedAt = updatedAt;
+    }
+
+    /// @inheritdoc IAggregatorV3
+    function decimals() external view returns (uint8) {
+        return _DECIMALS;
+    }
+
+    /// @inheritdoc IAggregatorV3
+    function description() external view returns (string memory) {
+        return _description;
+    }
+
+    /// @inheritdoc IAggregatorV3
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return (_roundId, _answer, _updatedAt, _updatedAt, _roundId);
+    }
+}
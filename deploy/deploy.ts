@@ -1,16 +1,95 @@
+import { writeFileSync } from "fs";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { join } from "path";
+
+const LOCAL_CONTRACT_FILE = join(__dirname, "..", "app", "src", "config", "localContract.generated.ts");
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute, read } = hre.deployments;
+
+  const deployedSentiment = await deploy("CrowdSentiment", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedRedemptions = await deploy("PointRedemptions", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedPools = await deploy("PoolSettlement", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedReveals = await deploy("PredictionReveals", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedScoring = await deploy("PredictionScoring", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedReports = await deploy("PriceReports", {
+    from: deployer,
+    log: true,
+  });
 
   const deployedPrivOracle = await deploy("PrivOracle", {
     from: deployer,
     log: true,
+    libraries: {
+      CrowdSentiment: deployedSentiment.address,
+      PointRedemptions: deployedRedemptions.address,
+      PoolSettlement: deployedPools.address,
+      PredictionReveals: deployedReveals.address,
+      PredictionScoring: deployedScoring.address,
+      PriceReports: deployedReports.address,
+    },
   });
 
+  const deployBlock = deployedPrivOracle.receipt?.blockNumber ?? 0;
   console.log(`PrivOracle contract: `, deployedPrivOracle.address);
+  console.log(`PrivOracle deployment block: `, deployBlock);
+
+  // Point the app at the node it talks to, so redeploying to localhost never leaves it on a stale address. Event
+  // scans start at the deployment block.
+  if (hre.network.name === "localhost") {
+    writeFileSync(
+      LOCAL_CONTRACT_FILE,
+      "// Generated by deploy/deploy.ts on `npx hardhat deploy --network localhost`; do not edit by hand.\n" +
+        `export const LOCAL_CONTRACT_ADDRESS = '${deployedPrivOracle.address}';\n` +
+        `export const LOCAL_DEPLOY_BLOCK = ${deployBlock}n;\n`,
+    );
+  }
+
+  if (deployedPrivOracle.newlyDeployed) {
+    // Streaks of 3, 5 and 10 correct days earn 10%, 25% and 50% more points.
+    await execute("PrivOracle", { from: deployer, log: true }, "setStreakBonuses", [3, 5, 10], [1000, 2500, 5000]);
+  }
+
+  // The test token mints freely, so only local networks stake with it. Elsewhere the owner picks a real token with
+  // setStakeToken.
+  if (hre.network.config.chainId !== 31337) {
+    return;
+  }
+
+  const deployedToken = await deploy("ConfidentialTestToken", {
+    from: deployer,
+    log: true,
+    args: ["PrivOracle Stake", "POS"],
+  });
+
+  const stakeToken = await read("PrivOracle", "getStakeToken");
+  if (stakeToken === hre.ethers.ZeroAddress) {
+    await execute("PrivOracle", { from: deployer, log: true }, "setStakeToken", deployedToken.address);
+  }
+
+  console.log(`ConfidentialTestToken contract: `, deployedToken.address);
 };
 export default func;
 func.id = "deploy_priv_oracle"; // id required to prevent reexecution
@@ -1,18 +1,179 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { exec } from "child_process";
+import { ContractTransactionResponse, Signer, ZeroAddress, formatUnits, id, parseEther, parseUnits } from "ethers";
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
-type AssetId = 0 | 1;
+import { promisify } from "util";
 
-function parseAsset(value: string): AssetId {
+import type { PrivOracle } from "../types";
+
+const execAsync = promisify(exec);
+
+type AssetInfo = {
+  id: number;
+  symbol: string;
+  decimals: number;
+};
+
+async function resolveAsset(contract: PrivOracle, value: string): Promise<AssetInfo> {
+  const [symbols, decimals] = await contract.listAssets();
   const normalized = value.trim().toLowerCase();
-  if (normalized === "eth" || normalized === "0") {
-    return 0;
+  const id = /^[0-9]+$/.test(normalized)
+    ? Number(normalized)
+    : symbols.findIndex((symbol) => symbol.toLowerCase() === normalized);
+  if (id < 0 || id >= symbols.length) {
+    throw new Error(`Unknown asset "${value}". Registered assets: ${symbols.join(", ")}.`);
+  }
+  return { id, symbol: symbols[id], decimals: Number(decimals[id]) };
+}
+
+type PendingPrediction = {
+  user: string;
+  asset: number;
+  day: bigint;
+};
+
+// Predictions (of `user`, or of everyone) whose price is recorded and that are neither confirmed nor refunded.
+async function findSettleablePredictions(
+  contract: PrivOracle,
+  fromBlock: number,
+  user?: string,
+): Promise<PendingPrediction[]> {
+  const currentDay = await contract.currentDay();
+  const events = await contract.queryFilter(contract.filters.PredictionPlaced(user), fromBlock);
+
+  const pending: PendingPrediction[] = [];
+  for (const event of events) {
+    const player = event.args.user;
+    const asset = Number(event.args.asset);
+    const day = event.args.day;
+    if (day > currentDay) {
+      continue;
+    }
+    const [, , , confirmed, , refunded] = await contract.getPrediction(player, asset, day);
+    const [, recorded] = await contract.getPrice(asset, day);
+    if (!confirmed && !refunded && recorded) {
+      pending.push({ user: player, asset, day });
+    }
+  }
+  return pending;
+}
+
+type HistoryRow = {
+  day: string;
+  asset: string;
+  user: string;
+  stake: string;
+  confirmed: boolean;
+  price: string;
+  block: number;
+  txHash: string;
+};
+
+function toCsv(rows: HistoryRow[]): string {
+  const columns: (keyof HistoryRow)[] = ["day", "asset", "user", "stake", "confirmed", "price", "block", "txHash"];
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = rows.map((row) => columns.map((column) => escape(row[column])).join(","));
+  return [columns.join(","), ...lines].join("\n") + "\n";
+}
+
+type PriceSource = {
+  kind: "file" | "command" | "url";
+  value: string;
+};
+
+// Quotes map an asset symbol (or id) to a USD price, given either as a JSON object such as
+// {"ETH": "3521.47", "BTC": 67000} or as CSV lines of `symbol,price` with an optional header.
+function parseQuotes(text: string): Map<string, string> {
+  const quotes = new Map<string, string>();
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    for (const [key, value] of Object.entries(JSON.parse(trimmed) as Record<string, unknown>)) {
+      quotes.set(key.trim().toLowerCase(), String(value));
+    }
+    return quotes;
+  }
+  for (const line of trimmed.split(/\r?\n/)) {
+    const [key, value] = line.split(",").map((cell) => cell.trim());
+    if (key && value && !/^(symbol|asset)$/i.test(key)) {
+      quotes.set(key.toLowerCase(), value);
+    }
+  }
+  return quotes;
+}
+
+async function readQuotes(source: PriceSource): Promise<Map<string, string>> {
+  if (source.kind === "file") {
+    return parseQuotes(readFileSync(source.value, "utf8"));
+  }
+  if (source.kind === "command") {
+    const { stdout } = await execAsync(source.value, { timeout: 30_000 });
+    return parseQuotes(stdout);
+  }
+  const response = await fetch(source.value, { signal: AbortSignal.timeout(30_000) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${source.value}`);
+  }
+  return parseQuotes(await response.text());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Small seeded generator (mulberry32), so a simulated season can be replayed with the same seed.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type SimulatedPlayer = {
+  signer: Signer;
+  address: string;
+  predictions: number;
+  wins: number;
+  staked: bigint;
+  points: bigint;
+};
+
+const ROLES = ["reporter", "pauser", "treasury"] as const;
+
+function parseRole(value: string): string {
+  const name = value.trim().toLowerCase();
+  if (!ROLES.includes(name as (typeof ROLES)[number])) {
+    throw new Error(`Unknown role "${value}". Use one of: ${ROLES.join(", ")}.`);
+  }
+  return id(`${name.toUpperCase()}_ROLE`);
+}
+
+// Recording, backfilling and reporting prices all need the reporter role; fail before sending a transaction without it.
+async function requireReporter(contract: PrivOracle, account: string) {
+  if (!(await contract.hasRole(parseRole("reporter"), account))) {
+    throw new Error(`${account} is not a reporter. The owner can grant it with task:grant-role --role reporter.`);
   }
-  if (normalized === "btc" || normalized === "1") {
-    return 1;
+}
+
+function parsePrice(value: string, asset: AssetInfo): bigint {
+  try {
+    return parseUnits(value.trim(), asset.decimals);
+  } catch {
+    throw new Error(`Invalid ${asset.symbol} price "${value}". Use at most ${asset.decimals} decimals.`);
   }
-  throw new Error(`Unknown asset "${value}". Use ETH or BTC.`);
+}
+
+function parseList(value: string): bigint[] {
+  return value.trim() === "" ? [] : value.split(",").map((item) => BigInt(item.trim()));
 }
 
 task("task:address", "Prints the PrivOracle address").setAction(async function (_taskArguments: TaskArguments, hre) {
@@ -29,100 +190,1469 @@ task("task:current-day", "Prints the current day index").setAction(async functio
   console.log(`Current day: ${day}`);
 });
 
-task("task:record-price", "Records the daily price for an asset")
-  .addParam("asset", "ETH or BTC")
-  .addParam("price", "Price as integer (USD, no decimals)")
+task("task:assets", "Lists the registered assets").setAction(async function (_taskArguments: TaskArguments, hre) {
+  const { ethers, deployments } = hre;
+  const deployment = await deployments.get("PrivOracle");
+  const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+  const [symbols, decimals, enabled] = await contract.listAssets();
+  symbols.forEach((symbol, index) => {
+    console.log(`${index}: ${symbol} decimals=${decimals[index]} ${enabled[index] ? "enabled" : "disabled"}`);
+  });
+});
+
+task("task:add-asset", "Registers a new asset (owner)")
+  .addParam("symbol", "Asset symbol, e.g. SOL")
+  .addParam("decimals", "Number of decimals prices are quoted with")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).addAsset(taskArguments.symbol, Number(taskArguments.decimals));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:disable-asset", "Stops new predictions for an asset (owner)")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const tx = await contract.connect(signer).disableAsset(asset.id);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:roles", "Prints the owner, pending owner and the roles held by an account")
+  .addOptionalParam("account", "Account to inspect (default: the first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const account = taskArguments.account ?? signer.address;
+
+    const [reporter, pauser, treasury] = await contract.getRoles(account);
+    const held = ROLES.filter((_, index) => [reporter, pauser, treasury][index]);
+    console.log(`Owner: ${await contract.owner()}`);
+    console.log(`Pending owner: ${await contract.pendingOwner()}`);
+    console.log(`Paused: ${await contract.paused()}`);
+    console.log(`${account}: ${held.length > 0 ? held.join(", ") : "no roles"}`);
+  });
+
+task("task:grant-role", "Grants a role to an account (owner)")
+  .addParam("role", `One of: ${ROLES.join(", ")}`)
+  .addParam("account", "Account address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).grantRole(parseRole(taskArguments.role), taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:revoke-role", "Revokes a role from an account (owner)")
+  .addParam("role", `One of: ${ROLES.join(", ")}`)
+  .addParam("account", "Account address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).revokeRole(parseRole(taskArguments.role), taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:transfer-ownership", "Proposes a new owner, who must then run task:accept-ownership (owner)")
+  .addParam("owner", "Address of the new owner")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).transferOwnership(taskArguments.owner);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:accept-ownership", "Accepts a pending ownership transfer").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const { ethers, deployments } = hre;
+
+  const deployment = await deployments.get("PrivOracle");
+  const [signer] = await ethers.getSigners();
+  const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+  const tx = await contract.connect(signer).acceptOwnership();
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+});
+
+task("task:pause", "Pauses or resumes predictions, confirmations, claims and redemption requests (pauser)")
+  .addFlag("resume", "Unpause instead of pausing")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = taskArguments.resume ? await contract.connect(signer).unpause() : await contract.connect(signer).pause();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:withdraw-treasury", "Withdraws ETH that is not owed to redeemers or backing points (treasury)")
+  .addParam("amount", "Amount in ETH")
+  .addOptionalParam("to", "Recipient (default: the first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const revealTx = await contract.connect(signer).requestOutstandingPointsReveal();
+    console.log(`Wait for tx:${revealTx.hash}...`);
+    await revealTx.wait();
+
+    const handle = await contract.getOutstandingPoints();
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const outstanding = decryption.clearValues[handle as `0x${string}`] as bigint;
+    console.log(`Outstanding points: ${ethers.formatEther(outstanding)}`);
+
+    const to = taskArguments.to ?? signer.address;
+    const tx = await contract
+      .connect(signer)
+      .withdrawTreasury(to, parseEther(taskArguments.amount), outstanding, decryption.decryptionProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:record-price", "Records the daily price for an asset (reporter, while no reporter quorum is set)")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("price", "Price in USD, e.g. 3521.47 (up to the asset's decimals)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+    const price = parsePrice(taskArguments.price, asset);
+    const [signer] = await ethers.getSigners();
+    await requireReporter(contract, signer.address);
+
+    const tx = await contract.connect(signer).recordDailyPrice(asset.id, price);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:backfill-price", "Records the price of a missed past day while its refund window is open (reporter)")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Past day index (UTC)")
+  .addParam("price", "Price in USD, e.g. 3521.47 (up to the asset's decimals)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const day = BigInt(taskArguments.day);
+
+    const deployment = await deployments.get("PrivOracle");
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+    const price = parsePrice(taskArguments.price, asset);
+    const [signer] = await ethers.getSigners();
+    await requireReporter(contract, signer.address);
+
+    const tx = await contract.connect(signer).backfillDailyPrice(asset.id, day, price);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:report-price", "Submits a reporter's price for today; the median is recorded once the quorum reports")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("price", "Price in USD, e.g. 3521.47 (up to the asset's decimals)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+    const price = parsePrice(taskArguments.price, asset);
+    const [signer] = await ethers.getSigners();
+    await requireReporter(contract, signer.address);
+
+    const tx = await contract.connect(signer).reportPrice(asset.id, price);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const day = await contract.currentDay();
+    const [reporters] = await contract.getReports(asset.id, day);
+    const [recordedPrice, recorded] = await contract.getPrice(asset.id, day);
+    if (recorded) {
+      console.log(`${asset.symbol} day ${day} finalized at ${formatUnits(recordedPrice, asset.decimals)}`);
+    } else {
+      console.log(`${asset.symbol} day ${day}: ${reporters.length}/${await contract.getQuorum()} reports`);
+    }
+  });
+
+task("task:set-quorum", "Sets how many reporters must report before a price is recorded (owner, 0 = any reporter)")
+  .addParam("quorum", "Number of reports required")
+  .addOptionalParam("maxDeviation", "Allowed distance from the median in basis points before a reporter is flagged")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).setQuorum(BigInt(taskArguments.quorum));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (taskArguments.maxDeviation !== undefined) {
+      const deviationTx = await contract.connect(signer).setMaxDeviation(BigInt(taskArguments.maxDeviation));
+      console.log(`Wait for tx:${deviationTx.hash}...`);
+      const deviationReceipt = await deviationTx.wait();
+      console.log(`tx:${deviationTx.hash} status=${deviationReceipt?.status}`);
+    }
+  });
+
+task("task:set-price-feed", "Sets the Chainlink AggregatorV3 feed an asset's price is pulled from (owner)")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("feed", "Aggregator address, or 0x0000000000000000000000000000000000000000 to remove the feed")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
-    const asset = parseAsset(taskArguments.asset);
-    const price = BigInt(taskArguments.price);
 
     const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const tx = await contract.connect(signer).setPriceFeed(asset.id, taskArguments.feed);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:pull-price", "Records today's price for an asset from its configured price feed")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
     const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
 
-    const tx = await contract.connect(signer).recordDailyPrice(asset, price);
+    const tx = await contract.connect(signer).pullDailyPrice(asset.id);
     console.log(`Wait for tx:${tx.hash}...`);
     const receipt = await tx.wait();
     console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const day = await contract.currentDay();
+    const [price] = await contract.getPrice(asset.id, day);
+    console.log(`${asset.symbol} day ${day} recorded at ${formatUnits(price, asset.decimals)}`);
+  });
+
+task("task:price-feeder", "Records every new day's prices from a file, command or HTTP source until stopped")
+  .addOptionalParam("file", "JSON or CSV file with the quotes, read again for every day")
+  .addOptionalParam("command", "Shell command that prints the quotes as JSON or CSV")
+  .addOptionalParam("url", "HTTP endpoint that returns the quotes as JSON or CSV")
+  .addOptionalParam("assets", "Comma-separated asset symbols or ids (default: every enabled asset)")
+  .addOptionalParam("interval", "Seconds between checks for a new day", "60")
+  .addOptionalParam("retries", "Attempts per transaction before waiting for the next check", "3")
+  .addOptionalParam("log", "File the feeder appends its log to", "price-feeder.log")
+  .addFlag("once", "Feed the current day and exit instead of waiting for the next one")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const kinds = (["file", "command", "url"] as const).filter((kind) => taskArguments[kind] !== undefined);
+    if (kinds.length !== 1) {
+      throw new Error("Pass exactly one of --file, --command or --url.");
+    }
+    const source: PriceSource = { kind: kinds[0], value: taskArguments[kinds[0]] };
+    const interval = Number(taskArguments.interval);
+    const retries = Number(taskArguments.retries);
+    if (!(interval > 0) || !Number.isInteger(retries) || retries < 1) {
+      throw new Error("--interval must be positive and --retries a whole number of at least 1.");
+    }
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    let assets: AssetInfo[];
+    if (taskArguments.assets !== undefined) {
+      assets = [];
+      for (const value of (taskArguments.assets as string).split(",")) {
+        assets.push(await resolveAsset(contract, value));
+      }
+    } else {
+      const [symbols, decimals, enabled] = await contract.listAssets();
+      assets = symbols
+        .map((symbol, index) => ({ id: index, symbol, decimals: Number(decimals[index]) }))
+        .filter((asset) => enabled[asset.id]);
+    }
+    // Anyone can pull a feed price; every other asset is recorded or reported by this signer.
+    for (const asset of assets) {
+      if ((await contract.getPriceFeed(asset.id)) === ZeroAddress) {
+        await requireReporter(contract, signer.address);
+        break;
+      }
+    }
+
+    const logFile: string = taskArguments.log;
+    const log = (message: string) => {
+      const line = `${new Date().toISOString()} ${message}`;
+      console.log(line);
+      appendFileSync(logFile, line + "\n");
+    };
+
+    // Sends one price transaction, re-checking the day after each failure in case it landed anyway.
+    const sendWithRetries = async (asset: AssetInfo, day: bigint, send: () => Promise<ContractTransactionResponse>) => {
+      for (let attempt = 1; attempt <= retries; attempt++) {
+        try {
+          const tx = await send();
+          log(`${asset.symbol} day ${day} tx:${tx.hash}`);
+          const receipt = await tx.wait();
+          log(`tx:${tx.hash} status=${receipt?.status}`);
+          return true;
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          log(`${asset.symbol} day ${day} attempt ${attempt}/${retries} failed: ${reason}`);
+          try {
+            const [, recorded] = await contract.getPrice(asset.id, day);
+            if (recorded) {
+              return true;
+            }
+          } catch {
+            // The node may be unreachable; the next attempt or check will find out.
+          }
+          if (attempt < retries) {
+            await sleep(5_000 * attempt);
+          }
+        }
+      }
+      return false;
+    };
+
+    // Returns true once every asset of `day` is recorded, or reported by this signer while a quorum is pending.
+    const feedDay = async (day: bigint) => {
+      const quorum = await contract.getQuorum();
+      let quotes: Map<string, string> | undefined;
+      let complete = true;
+
+      for (const asset of assets) {
+        const [, recorded] = await contract.getPrice(asset.id, day);
+        if (recorded) {
+          log(`${asset.symbol} day ${day} already recorded, skipping`);
+          continue;
+        }
+
+        if ((await contract.getPriceFeed(asset.id)) !== ZeroAddress) {
+          const pulled = await sendWithRetries(asset, day, () => contract.connect(signer).pullDailyPrice(asset.id));
+          complete = pulled && complete;
+          continue;
+        }
+        if (quorum > 0n) {
+          const [reporters] = await contract.getReports(asset.id, day);
+          if (reporters.some((reporter) => reporter.toLowerCase() === signer.address.toLowerCase())) {
+            log(`${asset.symbol} day ${day} already reported, waiting for the quorum`);
+            continue;
+          }
+        }
+
+        try {
+          quotes ??= await readQuotes(source);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          log(`Reading ${source.kind} ${source.value} failed: ${reason}`);
+          return false;
+        }
+        const quote = quotes.get(asset.symbol.toLowerCase()) ?? quotes.get(asset.id.toString());
+        if (quote === undefined) {
+          log(`${asset.symbol} day ${day}: no quote in ${source.kind} ${source.value}`);
+          complete = false;
+          continue;
+        }
+        let price: bigint;
+        try {
+          price = parsePrice(quote, asset);
+        } catch (error) {
+          log(error instanceof Error ? error.message : String(error));
+          complete = false;
+          continue;
+        }
+        if (price <= 0n) {
+          log(`${asset.symbol} day ${day}: ignoring non-positive quote ${quote}`);
+          complete = false;
+          continue;
+        }
+
+        log(`${asset.symbol} day ${day}: ${quorum > 0n ? "reporting" : "recording"} ${quote}`);
+        const sent = await sendWithRetries(asset, day, () =>
+          quorum > 0n
+            ? contract.connect(signer).reportPrice(asset.id, price)
+            : contract.connect(signer).recordDailyPrice(asset.id, price),
+        );
+        complete = sent && complete;
+      }
+      return complete;
+    };
+
+    let stopping = false;
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.once(signal, () => {
+        stopping = true;
+        log(`${signal} received, stopping after the current check`);
+      });
+    }
+
+    const symbols = assets.map((asset) => asset.symbol).join(", ");
+    log(`Feeding ${symbols} from ${source.kind} ${source.value} as ${signer.address}`);
+    let fedDay: bigint | undefined;
+    while (!stopping) {
+      // Uses the chain's day rather than the local clock, so time travel on a Hardhat node starts a new day too.
+      try {
+        const day = await contract.currentDay();
+        if (day !== fedDay) {
+          if (await feedDay(day)) {
+            fedDay = day;
+            log(`Day ${day} fed, waiting for day ${day + 1n}`);
+          } else if (taskArguments.once) {
+            process.exitCode = 1;
+          }
+        }
+      } catch (error) {
+        log(`Check failed: ${error instanceof Error ? error.message : String(error)}`);
+        if (taskArguments.once) {
+          process.exitCode = 1;
+        }
+      }
+      if (taskArguments.once) {
+        break;
+      }
+      for (let waited = 0; waited < interval && !stopping; waited++) {
+        await sleep(1_000);
+      }
+    }
   });
 
-task("task:place-prediction", "Places an encrypted prediction for tomorrow")
-  .addParam("asset", "ETH or BTC")
-  .addParam("price", "Predicted price as integer (USD, no decimals)")
-  .addParam("direction", "1 for greater than, 2 for less than")
-  .addOptionalParam("stake", "Stake in ETH (default 0.01)")
+task("task:place-prediction", "Places an encrypted prediction for a future day (tomorrow by default)")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addOptionalParam("day", "Target day index (UTC)")
+  .addOptionalParam("horizon", "Days ahead of today to target instead of --day (default 1)")
+  .addOptionalParam("price", "Predicted price in USD, e.g. 3521.47 (up to the asset's decimals)")
+  .addOptionalParam("direction", "1 for greater than, 2 for less than")
+  .addOptionalParam("low", "Lower bound of a band prediction in USD (use with --high instead of --price/--direction)")
+  .addOptionalParam("high", "Upper bound of a band prediction in USD")
+  .addOptionalParam("stake", "Stake in ETH, or in stake tokens with --confidential (default 0.01)")
+  .addFlag("confidential", "Stake an encrypted amount of the stake token instead of ETH")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
-    const asset = parseAsset(taskArguments.asset);
-    const price = BigInt(taskArguments.price);
-    const direction = BigInt(taskArguments.direction);
+    const isBand = taskArguments.low !== undefined || taskArguments.high !== undefined;
     const stakeEth = taskArguments.stake ?? "0.01";
 
+    if (
+      isBand
+        ? taskArguments.low === undefined || taskArguments.high === undefined
+        : taskArguments.price === undefined || taskArguments.direction === undefined
+    ) {
+      throw new Error("Pass --price and --direction, or --low and --high for a band prediction.");
+    }
+    if (taskArguments.day !== undefined && taskArguments.horizon !== undefined) {
+      throw new Error("Pass either --day or --horizon, not both.");
+    }
+    if (isBand && taskArguments.confidential) {
+      throw new Error("Confidential stakes are only supported for --price/--direction predictions.");
+    }
+
     await fhevm.initializeCLIApi();
 
     const deployment = await deployments.get("PrivOracle");
     const [signer] = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+    const day =
+      taskArguments.day !== undefined
+        ? BigInt(taskArguments.day)
+        : (await contract.currentDay()) + BigInt(taskArguments.horizon ?? 1);
+    console.log(`Target day: ${day}`);
+    const input = fhevm.createEncryptedInput(deployment.address, signer.address);
 
-    const encrypted = await fhevm
-      .createEncryptedInput(deployment.address, signer.address)
-      .add64(price)
-      .add8(direction)
-      .encrypt();
-
-    const tx = await contract.connect(signer).placePrediction(
-      asset,
-      encrypted.handles[0],
-      encrypted.handles[1],
-      encrypted.inputProof,
-      { value: ethers.parseEther(stakeEth) },
-    );
+    let tx;
+    if (taskArguments.confidential) {
+      const token = await ethers.getContractAt("IConfidentialToken", await contract.getStakeToken());
+      if (!(await token.isOperator(signer.address, deployment.address))) {
+        const until = Math.floor(Date.now() / 1000) + 86400;
+        const operatorTx = await token.connect(signer).setOperator(deployment.address, until);
+        await operatorTx.wait();
+        console.log(`Made PrivOracle an operator of your stake tokens until ${new Date(until * 1000).toISOString()}`);
+      }
+      const encrypted = await input
+        .add64(parsePrice(taskArguments.price, asset))
+        .add8(BigInt(taskArguments.direction))
+        .add64(parseEther(stakeEth))
+        .encrypt();
+      tx = await contract
+        .connect(signer)
+        .placeConfidentialPrediction(
+          asset.id,
+          day,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.inputProof,
+        );
+    } else if (isBand) {
+      const encrypted = await input
+        .add64(parsePrice(taskArguments.low, asset))
+        .add64(parsePrice(taskArguments.high, asset))
+        .encrypt();
+      tx = await contract
+        .connect(signer)
+        .placeRangePrediction(asset.id, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+          value: ethers.parseEther(stakeEth),
+        });
+    } else {
+      const encrypted = await input
+        .add64(parsePrice(taskArguments.price, asset))
+        .add8(BigInt(taskArguments.direction))
+        .encrypt();
+      tx = await contract
+        .connect(signer)
+        .placePrediction(asset.id, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+          value: ethers.parseEther(stakeEth),
+        });
+    }
     console.log(`Wait for tx:${tx.hash}...`);
     const receipt = await tx.wait();
     console.log(`tx:${tx.hash} status=${receipt?.status}`);
   });
 
 task("task:confirm-prediction", "Confirms a prediction for a given day")
-  .addParam("asset", "ETH or BTC")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
   .addParam("day", "Day index (UTC) to confirm")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
-    const asset = parseAsset(taskArguments.asset);
     const day = BigInt(taskArguments.day);
 
     const deployment = await deployments.get("PrivOracle");
     const [signer] = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
 
-    const tx = await contract.connect(signer).confirmPrediction(asset, day);
+    const tx = await contract.connect(signer).confirmPrediction(asset.id, day);
     console.log(`Wait for tx:${tx.hash}...`);
     const receipt = await tx.wait();
     console.log(`tx:${tx.hash} status=${receipt?.status}`);
   });
 
-task("task:decrypt-points", "Decrypts your encrypted points")
-  .setAction(async function (_taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
-    await fhevm.initializeCLIApi();
+task("task:confirm-all", "Confirms every settleable prediction of the caller in one transaction")
+  .addOptionalParam("fromBlock", "Block to start scanning PredictionPlaced events from (default: deployment block)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
 
     const deployment = await deployments.get("PrivOracle");
     const [signer] = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const fromBlock = Number(taskArguments.fromBlock ?? deployment.receipt?.blockNumber ?? 0);
 
-    const encryptedPoints = await contract.getPoints(signer.address);
-    if (encryptedPoints === ethers.ZeroHash) {
-      console.log("Encrypted points are not initialized.");
+    const pending = await findSettleablePredictions(contract, fromBlock, signer.address);
+    if (pending.length === 0) {
+      console.log("No predictions ready to confirm.");
       return;
     }
 
-    const clearPoints = await fhevm.userDecryptEuint(
-      FhevmType.euint128,
-      encryptedPoints,
-      deployment.address,
-      signer,
+    const tx = await contract.connect(signer).confirmPredictions(
+      pending.map((item) => item.asset),
+      pending.map((item) => item.day),
     );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    for (const log of receipt?.logs ?? []) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "PredictionConfirmed") {
+        console.log(`confirmed asset=${parsed.args.asset} day=${parsed.args.day}`);
+      } else if (parsed?.name === "PredictionSkipped") {
+        console.log(`skipped asset=${parsed.args.asset} day=${parsed.args.day}: ${parsed.args.reason}`);
+      }
+    }
+  });
+
+task("task:keeper-run", "Confirms every settleable prediction of every user, collecting the keeper tip")
+  .addOptionalParam("fromBlock", "Block to start scanning PredictionPlaced events from (default: deployment block)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const fromBlock = Number(taskArguments.fromBlock ?? deployment.receipt?.blockNumber ?? 0);
+
+    const pending = await findSettleablePredictions(contract, fromBlock);
+    console.log(`Keeper tip: ${await contract.getKeeperTip()} bps, ${pending.length} predictions to settle`);
+
+    let settled = 0;
+    for (const item of pending) {
+      try {
+        const tx = await contract.connect(signer).confirmFor(item.user, item.asset, item.day);
+        const receipt = await tx.wait();
+        console.log(`${item.user} asset=${item.asset} day=${item.day} tx:${tx.hash} status=${receipt?.status}`);
+        settled++;
+      } catch (error) {
+        // Another keeper or the user may have confirmed in the meantime; keep going with the rest.
+        const reason = error instanceof Error ? error.message : String(error);
+        console.log(`${item.user} asset=${item.asset} day=${item.day} failed: ${reason}`);
+      }
+    }
+    console.log(`Settled ${settled}/${pending.length}`);
+  });
+
+task("task:history", "Exports one row per prediction with its stake, confirmation and recorded price to JSON or CSV")
+  .addOptionalParam("fromBlock", "Block to start scanning events from (default: deployment block)")
+  .addOptionalParam("toBlock", "Last block to scan (default: latest)")
+  .addOptionalParam("user", "Only include predictions of this address")
+  .addOptionalParam("asset", "Only include this asset (symbol or id)")
+  .addOptionalParam("out", "Output file; a .csv extension selects CSV (default: history.json)", "history.json")
+  .addOptionalParam("format", "json or csv (default: from the --out extension)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const fromBlock = Number(taskArguments.fromBlock ?? deployment.receipt?.blockNumber ?? 0);
+    const toBlock = taskArguments.toBlock !== undefined ? Number(taskArguments.toBlock) : "latest";
+    const out: string = taskArguments.out;
+    const format = (taskArguments.format ?? (out.toLowerCase().endsWith(".csv") ? "csv" : "json")).toLowerCase();
+    if (format !== "json" && format !== "csv") {
+      throw new Error(`Unknown format "${taskArguments.format}". Use json or csv.`);
+    }
+    if (taskArguments.user !== undefined && !ethers.isAddress(taskArguments.user)) {
+      throw new Error(`Invalid user address "${taskArguments.user}".`);
+    }
+    const user: string | undefined = taskArguments.user;
+    const asset = taskArguments.asset !== undefined ? await resolveAsset(contract, taskArguments.asset) : undefined;
+
+    const [symbols, decimals] = await contract.listAssets();
+    const placed = await contract.queryFilter(contract.filters.PredictionPlaced(user, asset?.id), fromBlock, toBlock);
+    const confirmations = await contract.queryFilter(
+      contract.filters.PredictionConfirmed(user, asset?.id),
+      fromBlock,
+      toBlock,
+    );
+    const prices = await contract.queryFilter(contract.filters.PriceRecorded(asset?.id), fromBlock, toBlock);
+
+    const confirmed = new Set(
+      confirmations.map((event) => `${event.args.user.toLowerCase()}:${event.args.asset}:${event.args.day}`),
+    );
+    const recorded = new Map(prices.map((event) => [`${event.args.asset}:${event.args.day}`, event.args.price]));
+
+    // Predictions, confirmations and prices are reported as of `toBlock`; later events are not included.
+    const rows: HistoryRow[] = placed.map((event) => {
+      const assetId = Number(event.args.asset);
+      const price = recorded.get(`${assetId}:${event.args.day}`);
+      return {
+        day: event.args.day.toString(),
+        asset: symbols[assetId] ?? assetId.toString(),
+        user: event.args.user,
+        stake: ethers.formatEther(event.args.stake),
+        confirmed: confirmed.has(`${event.args.user.toLowerCase()}:${assetId}:${event.args.day}`),
+        price: price !== undefined ? formatUnits(price, decimals[assetId]) : "",
+        block: event.blockNumber,
+        txHash: event.transactionHash,
+      };
+    });
+
+    writeFileSync(out, format === "csv" ? toCsv(rows) : JSON.stringify(rows, null, 2) + "\n");
+    const confirmedCount = rows.filter((row) => row.confirmed).length;
+    console.log(`Wrote ${rows.length} predictions (${confirmedCount} confirmed) to ${out}`);
+  });
+
+task("task:set-keeper-tip", "Sets the share of the stake paid to third parties that confirm for a user (owner)")
+  .addParam("bps", "Tip in basis points of the stake (max 500)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).setKeeperTip(BigInt(taskArguments.bps));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:set-horizon", "Sets how far ahead predictions may target and the bonus per extra day (owner)")
+  .addParam("max", "Maximum number of days ahead (1-365)")
+  .addParam("bonus", "Reward bonus in basis points for each day beyond the first (max 10000)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).setHorizon(BigInt(taskArguments.max), BigInt(taskArguments.bonus));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:fund-bonus-reserve", "Adds ETH to the reserve that pays horizon bonuses")
+  .addParam("amount", "Amount in ETH")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).fundBonusReserve({ value: parseEther(taskArguments.amount) });
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Bonus reserve: ${ethers.formatEther(await contract.getBonusReserve())} ETH`);
+  });
+
+task("task:set-accuracy-tiers", "Sets the accuracy tiers for threshold predictions (owner)")
+  .addParam("distances", "Comma-separated max distances from the recorded price in basis points, ascending")
+  .addParam("rewards", "Comma-separated reward shares in basis points, one per distance")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const distances = parseList(taskArguments.distances);
+    const rewards = parseList(taskArguments.rewards);
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).setAccuracyTiers(distances, rewards);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:set-streak-bonuses", "Sets the bonuses paid for win streaks (owner)")
+  .addParam("streaks", "Comma-separated streak lengths, ascending")
+  .addParam("bonuses", "Comma-separated reward bonuses in basis points, one per streak length")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract
+      .connect(signer)
+      .setStreakBonuses(parseList(taskArguments.streaks), parseList(taskArguments.bonuses));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:mint-stake-token", "Mints local test stake tokens to an account (token owner)")
+  .addParam("amount", "Amount in tokens, e.g. 1.5")
+  .addOptionalParam("to", "Recipient (default: the caller)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("ConfidentialTestToken");
+    const [signer] = await ethers.getSigners();
+    const token = await ethers.getContractAt("ConfidentialTestToken", deployment.address);
+
+    const tx = await token.connect(signer).mint(taskArguments.to ?? signer.address, parseEther(taskArguments.amount));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:set-stake-token", "Sets the confidential token placeConfidentialPrediction stakes, once (owner)")
+  .addParam("token", "ERC-7984 style token address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).setStakeToken(taskArguments.token);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:decrypt-stake-balance", "Decrypts your stake token balance and unclaimed token rewards").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const tokenAddress = await contract.getStakeToken();
+    if (tokenAddress === ethers.ZeroAddress) {
+      console.log("No stake token set.");
+      return;
+    }
+    const token = await ethers.getContractAt("IConfidentialToken", tokenAddress);
+
+    const encryptedBalance = await token.confidentialBalanceOf(signer.address);
+    const clearBalance =
+      encryptedBalance === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, tokenAddress, signer);
+    console.log(`Stake token balance: ${formatUnits(clearBalance, 18)}`);
+
+    const encryptedRewards = await contract.getTokenRewards(signer.address);
+    const clearRewards =
+      encryptedRewards === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint64, encryptedRewards, deployment.address, signer);
+    console.log(`Unclaimed token rewards: ${formatUnits(clearRewards, 18)}`);
+  },
+);
+
+task("task:claim-token-rewards", "Claims the stake tokens won by confidential predictions").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const { ethers, deployments } = hre;
+
+  const deployment = await deployments.get("PrivOracle");
+  const [signer] = await ethers.getSigners();
+  const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+  const tx = await contract.connect(signer).claimTokenRewards();
+  console.log(`Wait for tx:${tx.hash}...`);
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  console.log("Rewards the contract could not cover stay owed; check them with task:decrypt-stake-balance.");
+});
+
+task("task:withdraw-token-treasury", "Withdraws stake tokens that are not staked or owed as rewards (treasury)")
+  .addParam("amount", "Amount in tokens, e.g. 1.5")
+  .addOptionalParam("to", "Recipient (default: the first signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const to = taskArguments.to ?? signer.address;
+    const tx = await contract.connect(signer).withdrawTokenTreasury(to, parseEther(taskArguments.amount));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log("Nothing moves when the amount exceeds the free balance.");
+  });
+
+task("task:claim-refund", "Refunds the stake of a prediction whose day never got a price after the refund window")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the prediction")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const day = BigInt(taskArguments.day);
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const tx = await contract.connect(signer).claimRefund(asset.id, day);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:decrypt-points", "Decrypts your encrypted points, optionally sending some to another account first")
+  .addOptionalParam("to", "Recipient of an encrypted points transfer")
+  .addOptionalParam("amount", "Points to send with --to (1 point = 1 wei)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    if ((taskArguments.to === undefined) !== (taskArguments.amount === undefined)) {
+      throw new Error("Pass --to and --amount together to send points.");
+    }
+    if (taskArguments.to !== undefined) {
+      const pointsAddress = await contract.getPointsToken();
+      const points = await ethers.getContractAt("PrivPoints", pointsAddress);
+      const encrypted = await fhevm
+        .createEncryptedInput(pointsAddress, signer.address)
+        .add128(BigInt(taskArguments.amount))
+        .encrypt();
+
+      const tx = await points
+        .connect(signer)
+        ["confidentialTransfer(address,bytes32,bytes)"](taskArguments.to, encrypted.handles[0], encrypted.inputProof);
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      console.log("A transfer above your balance sends nothing; check the balance below.");
+    }
+
+    const encryptedPoints = await contract.getPoints(signer.address);
+    if (encryptedPoints === ethers.ZeroHash) {
+      console.log("Encrypted points are not initialized.");
+      return;
+    }
+
+    const clearPoints = await fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, deployment.address, signer);
 
     console.log(`Encrypted points: ${encryptedPoints}`);
     console.log(`Clear points: ${clearPoints}`);
   });
+
+task("task:decrypt-streak", "Decrypts your current win streak on an asset")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const [encryptedStreak, lastDay] = await contract.getStreak(signer.address, asset.id);
+    if (encryptedStreak === ethers.ZeroHash) {
+      console.log(`No confirmed ${asset.symbol} predictions yet.`);
+      return;
+    }
+
+    const streak = await fhevm.userDecryptEuint(FhevmType.euint32, encryptedStreak, deployment.address, signer);
+    console.log(`${asset.symbol} streak: ${streak} (last counted day ${lastDay})`);
+    if (lastDay + 1n < (await contract.currentDay())) {
+      console.log(`It resets on your next confirmation unless that one is for day ${lastDay + 1n}.`);
+    }
+  });
+
+task("task:decrypt-prediction", "Decrypts the price and direction (or band) of one of your predictions")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the prediction")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const day = BigInt(taskArguments.day);
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const [priceHandle, directionHandle, stake, confirmed, exists, refunded, band, upperHandle] =
+      await contract.getPrediction(signer.address, asset.id, day);
+    if (!exists) {
+      throw new Error(`You have no ${asset.symbol} prediction for day ${day}.`);
+    }
+    const secondHandle = band ? upperHandle : directionHandle;
+
+    // Both values are decrypted with a single signed request.
+    const keypair = fhevm.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = 1;
+    const eip712 = fhevm.createEIP712(keypair.publicKey, [deployment.address], startTimestamp, durationDays);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+    const clearValues = await fhevm.userDecrypt(
+      [priceHandle, secondHandle].map((handle) => ({ handle, contractAddress: deployment.address })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace("0x", ""),
+      [deployment.address],
+      signer.address,
+      startTimestamp,
+      durationDays,
+    );
+
+    const price = formatUnits(clearValues[priceHandle as `0x${string}`] as bigint, asset.decimals);
+    const second = clearValues[secondHandle as `0x${string}`] as bigint;
+    const guess = band
+      ? `inside ${price} - ${formatUnits(second, asset.decimals)}`
+      : `${second === 1n ? "above" : "below"} ${price}`;
+    console.log(`${asset.symbol} day ${day}: ${guess}`);
+    console.log(
+      `Stake: ${stake > 0n ? `${ethers.formatEther(stake)} ETH` : "encrypted"}, ` +
+        `${refunded ? "refunded" : confirmed ? "confirmed" : "not confirmed"}`,
+    );
+  });
+
+task("task:reveal-prediction", "Publicly reveals one of your confirmed predictions and its outcome (irreversible)")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the prediction")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const day = BigInt(taskArguments.day);
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const requestTx = await contract.connect(signer).revealPrediction(asset.id, day);
+    console.log(`Wait for tx:${requestTx.hash}...`);
+    const requestReceipt = await requestTx.wait();
+
+    const requested = requestReceipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "PredictionRevealRequested");
+    if (!requested) {
+      throw new Error("PredictionRevealRequested event not found");
+    }
+    const handles: string[] = [...requested.args.handles];
+
+    const decryption = await fhevm.publicDecrypt(handles);
+    const [price, second, correct] = handles.map((handle) => decryption.clearValues[handle as `0x${string}`]);
+    const [, , , , , , band] = await contract.getPrediction(signer.address, asset.id, day);
+    const direction = band ? 0n : (second as bigint);
+    const upper = band ? (second as bigint) : 0n;
+
+    const finalizeTx = await contract
+      .connect(signer)
+      .finalizeReveal(
+        signer.address,
+        asset.id,
+        day,
+        price as bigint,
+        direction,
+        upper,
+        correct as boolean,
+        decryption.decryptionProof,
+      );
+    console.log(`Wait for tx:${finalizeTx.hash}...`);
+    const receipt = await finalizeTx.wait();
+    console.log(`tx:${finalizeTx.hash} status=${receipt?.status}`);
+
+    const low = formatUnits(price as bigint, asset.decimals);
+    const guess = band
+      ? `inside ${low} - ${formatUnits(upper, asset.decimals)}`
+      : `${direction === 1n ? "above" : "below"} ${low}`;
+    console.log(`${asset.symbol} day ${day}: ${guess}, ${correct ? "correct" : "wrong"}`);
+  });
+
+task("task:reveal-sentiment", "Publishes the ETH staked up and down on a day that has started")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the predictions")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const day = BigInt(taskArguments.day);
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const [requested] = await contract.getSentiment(asset.id, day);
+    if (!requested) {
+      const requestTx = await contract.connect(signer).requestSentimentReveal(asset.id, day);
+      console.log(`Wait for tx:${requestTx.hash}...`);
+      await requestTx.wait();
+    }
+
+    const [, revealed, upHandle, downHandle] = await contract.getSentiment(asset.id, day);
+
+    if (!revealed) {
+      const decryption = await fhevm.publicDecrypt([upHandle, downHandle]);
+      const upStake = decryption.clearValues[upHandle as `0x${string}`] as bigint;
+      const downStake = decryption.clearValues[downHandle as `0x${string}`] as bigint;
+
+      const revealTx = await contract
+        .connect(signer)
+        .revealSentiment(asset.id, day, upStake, downStake, decryption.decryptionProof);
+      console.log(`Wait for tx:${revealTx.hash}...`);
+      const receipt = await revealTx.wait();
+      console.log(`tx:${revealTx.hash} status=${receipt?.status}`);
+    }
+
+    const [, , , , upStake, downStake] = await contract.getSentiment(asset.id, day);
+    const total = upStake + downStake;
+    console.log(`Up stake: ${ethers.formatEther(upStake)} ETH`);
+    console.log(`Down stake: ${ethers.formatEther(downStake)} ETH`);
+    if (total > 0n) {
+      console.log(`${asset.symbol} day ${day}: ${(upStake * 100n) / total}% of the stake predicted up`);
+    } else {
+      console.log(`${asset.symbol} day ${day}: no ETH-staked threshold predictions`);
+    }
+  });
+
+task("task:redeem-points", "Redeems encrypted points for ETH from the contract balance")
+  .addOptionalParam("amount", "Amount of points to redeem in ETH units (default: the whole balance)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    let requestTx;
+    if (taskArguments.amount !== undefined) {
+      const encrypted = await fhevm
+        .createEncryptedInput(deployment.address, signer.address)
+        .add128(ethers.parseEther(taskArguments.amount))
+        .encrypt();
+      requestTx = await contract.connect(signer).requestRedemption(encrypted.handles[0], encrypted.inputProof);
+    } else {
+      requestTx = await contract.connect(signer).requestFullRedemption();
+    }
+    console.log(`Wait for tx:${requestTx.hash}...`);
+    const requestReceipt = await requestTx.wait();
+
+    const requested = requestReceipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "RedemptionRequested");
+    if (!requested) {
+      throw new Error("RedemptionRequested event not found");
+    }
+    const requestId: bigint = requested.args.requestId;
+    const amountHandle: string = requested.args.amount;
+
+    const decryption = await fhevm.publicDecrypt([amountHandle]);
+    const clearAmount = decryption.clearValues[amountHandle as `0x${string}`] as bigint;
+    console.log(`Redemption #${requestId} decrypted to ${ethers.formatEther(clearAmount)} ETH`);
+
+    const finalizeTx = await contract
+      .connect(signer)
+      .finalizeRedemption(requestId, clearAmount, decryption.decryptionProof);
+    console.log(`Wait for tx:${finalizeTx.hash}...`);
+    const finalizeReceipt = await finalizeTx.wait();
+    console.log(`tx:${finalizeTx.hash} status=${finalizeReceipt?.status}`);
+
+    const owed = await contract.getOwed(signer.address);
+    if (owed > 0n) {
+      console.log(`Contract is short of ETH, ${ethers.formatEther(owed)} ETH remains owed (task:withdraw-redemption)`);
+    }
+  });
+
+task("task:withdraw-redemption", "Withdraws redeemed ETH that the contract could not pay out earlier").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+
+    const tx = await contract.connect(signer).withdrawRedemption();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  },
+);
+
+task("task:enable-pool", "Switches an upcoming (asset, day) nobody has predicted on yet to parimutuel pool settlement")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the pool, must not have started yet")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const day = BigInt(taskArguments.day);
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const tx = await contract.connect(signer).enablePoolMode(asset.id, day);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:settle-pool", "Decrypts a pool's totals after its settlement window and settles it")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the pool")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    const day = BigInt(taskArguments.day);
+    await fhevm.initializeCLIApi();
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const requestTx = await contract.connect(signer).requestPoolSettlement(asset.id, day);
+    console.log(`Wait for tx:${requestTx.hash}...`);
+    await requestTx.wait();
+
+    const [, settled, totalHandle, winningHandle] = await contract.getPool(asset.id, day);
+    if (settled) {
+      console.log("Pool had no confirmations and was settled empty.");
+      return;
+    }
+
+    const decryption = await fhevm.publicDecrypt([totalHandle, winningHandle]);
+    const totalStake = decryption.clearValues[totalHandle as `0x${string}`] as bigint;
+    const winningStake = decryption.clearValues[winningHandle as `0x${string}`] as bigint;
+    console.log(`Total stake: ${ethers.formatEther(totalStake)} ETH`);
+    console.log(`Winning stake: ${ethers.formatEther(winningStake)} ETH`);
+
+    const settleTx = await contract
+      .connect(signer)
+      .settlePool(asset.id, day, totalStake, winningStake, decryption.decryptionProof);
+    console.log(`Wait for tx:${settleTx.hash}...`);
+    const receipt = await settleTx.wait();
+    console.log(`tx:${settleTx.hash} status=${receipt?.status}`);
+  });
+
+task("task:claim-pool-reward", "Claims your share of a settled pool as encrypted points")
+  .addParam("asset", "Asset symbol or id (see task:assets)")
+  .addParam("day", "Day index (UTC) of the pool")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const day = BigInt(taskArguments.day);
+
+    const deployment = await deployments.get("PrivOracle");
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+
+    const tx = await contract.connect(signer).claimPoolReward(asset.id, day);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+task("task:simulate", "Plays a season of random encrypted predictions on a mock FHEVM node and reports the results")
+  .addOptionalParam("players", "Number of simulated players", "5")
+  .addOptionalParam("days", "Number of days to predict and settle", "7")
+  .addOptionalParam("asset", "Asset symbol or id (see task:assets)", "ETH")
+  .addOptionalParam("startPrice", "First price of the random walk in USD", "3000")
+  .addOptionalParam("volatility", "Largest daily move of the random walk in percent", "3")
+  .addOptionalParam("prices", "CSV file with one price per line (or day,price) to use instead of the random walk")
+  .addOptionalParam("spread", "Largest distance of a guess from the last recorded price in percent", "2")
+  .addOptionalParam("minStake", "Smallest stake in ETH", "0.01")
+  .addOptionalParam("maxStake", "Largest stake in ETH", "0.1")
+  .addOptionalParam("seed", "Seed of the random generator, to replay a season", "1")
+  .addFlag("keep", "Keep the simulated season on the node instead of reverting to the snapshot taken before it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm, network } = hre;
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error("task:simulate moves time and funds wallets; run it on a Hardhat node (--network localhost).");
+    }
+    const playerCount = Number(taskArguments.players);
+    const days = Number(taskArguments.days);
+    if (!Number.isInteger(playerCount) || playerCount < 1 || !Number.isInteger(days) || days < 1) {
+      throw new Error("--players and --days must be whole numbers of at least 1.");
+    }
+    const minStake = parseEther(taskArguments.minStake);
+    const maxStake = parseEther(taskArguments.maxStake);
+    if (minStake <= 0n || maxStake < minStake) {
+      throw new Error("--min-stake must be positive and no larger than --max-stake.");
+    }
+    const random = seededRandom(Number(taskArguments.seed));
+
+    const deployment = await deployments.get("PrivOracle");
+    const [owner] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivOracle", deployment.address);
+    const asset = await resolveAsset(contract, taskArguments.asset);
+    if ((await contract.getQuorum()) > 0n || (await contract.getPriceFeed(asset.id)) !== ZeroAddress) {
+      throw new Error(`The simulation records prices itself; clear the quorum and the ${asset.symbol} feed.`);
+    }
+    await requireReporter(contract, owner.address);
+
+    // One price for the first day, then one per simulated day.
+    let clearPrices: string[];
+    if (taskArguments.prices !== undefined) {
+      clearPrices = readFileSync(taskArguments.prices, "utf8")
+        .split(/\r?\n/)
+        .map((line) => line.split(",").pop()?.trim() ?? "")
+        .filter((cell) => /^[0-9]+(\.[0-9]+)?$/.test(cell));
+      if (clearPrices.length < days + 1) {
+        throw new Error(`--prices needs at least ${days + 1} prices: one to start from and one per simulated day.`);
+      }
+    } else {
+      const volatility = Number(taskArguments.volatility) / 100;
+      let price = Number(taskArguments.startPrice);
+      clearPrices = [price.toFixed(asset.decimals)];
+      for (let round = 0; round < days; round++) {
+        price *= 1 + (random() * 2 - 1) * volatility;
+        clearPrices.push(price.toFixed(asset.decimals));
+      }
+    }
+    clearPrices = clearPrices.slice(0, days + 1);
+    const prices = clearPrices.map((price) => parsePrice(price, asset));
+
+    const snapshot = await network.provider.send("evm_snapshot");
+    try {
+      const startBalance = await ethers.provider.getBalance(deployment.address);
+
+      // Fresh wallets, so points and streaks from earlier activity on the node do not count.
+      const players: SimulatedPlayer[] = [];
+      for (let index = 0; index < playerCount; index++) {
+        const signer = ethers.Wallet.createRandom().connect(ethers.provider);
+        const funding = maxStake * BigInt(days) + parseEther("1");
+        await (await owner.sendTransaction({ to: signer.address, value: funding })).wait();
+        players.push({ signer, address: signer.address, predictions: 0, wins: 0, staked: 0n, points: 0n });
+      }
+
+      const gas = new Map<string, bigint[]>();
+      const track = async (operation: string, sent: Promise<ContractTransactionResponse>) => {
+        const receipt = await (await sent).wait();
+        gas.set(operation, [...(gas.get(operation) ?? []), receipt?.gasUsed ?? 0n]);
+      };
+      const startDay = async (day: bigint) => {
+        await network.provider.send("evm_setNextBlockTimestamp", [Number(day * 86400n) + 5]);
+        await network.provider.send("evm_mine");
+      };
+
+      // Start on a day nobody has recorded yet.
+      await startDay((await contract.currentDay()) + 1n);
+      await track("recordDailyPrice", contract.connect(owner).recordDailyPrice(asset.id, prices[0]));
+      console.log(`Simulating ${playerCount} players over ${days} days of ${asset.symbol}...`);
+
+      for (let round = 1; round <= days; round++) {
+        const day = (await contract.currentDay()) + 1n;
+        const lastPrice = Number(clearPrices[round - 1]);
+        const guesses: { price: bigint; direction: bigint }[] = [];
+
+        for (const player of players) {
+          const spread = (random() * 2 - 1) * (Number(taskArguments.spread) / 100);
+          const price = parsePrice((lastPrice * (1 + spread)).toFixed(asset.decimals), asset);
+          const guess = { price, direction: random() < 0.5 ? 1n : 2n };
+          const stake = minStake + ((maxStake - minStake) * BigInt(Math.floor(random() * 1000))) / 1000n;
+          const encrypted = await fhevm
+            .createEncryptedInput(deployment.address, player.address)
+            .add64(guess.price)
+            .add8(guess.direction)
+            .encrypt();
+          await track(
+            "placePrediction",
+            contract
+              .connect(player.signer)
+              .placePrediction(asset.id, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+                value: stake,
+              }),
+          );
+          guesses.push(guess);
+          player.predictions++;
+          player.staked += stake;
+        }
+
+        await startDay(day);
+        await track("recordDailyPrice", contract.connect(owner).recordDailyPrice(asset.id, prices[round]));
+
+        for (const [index, player] of players.entries()) {
+          await track("confirmPrediction", contract.connect(player.signer).confirmPrediction(asset.id, day));
+          const { price, direction } = guesses[index];
+          if (direction === 1n ? prices[round] > price : prices[round] < price) {
+            player.wins++;
+          }
+        }
+        console.log(`Day ${day}: ${clearPrices[round]}`);
+      }
+
+      for (const player of players) {
+        const handle = await contract.getPoints(player.address);
+        player.points =
+          handle === ethers.ZeroHash
+            ? 0n
+            : await fhevm.userDecryptEuint(FhevmType.euint128, handle, deployment.address, player.signer);
+      }
+
+      const percent = (part: bigint, whole: bigint) =>
+        whole === 0n ? "0.0%" : `${(Number((part * 10000n) / whole) / 100).toFixed(1)}%`;
+      console.table(
+        players.map((player) => ({
+          player: player.address,
+          predictions: player.predictions,
+          wins: player.wins,
+          "win rate": percent(BigInt(player.wins), BigInt(player.predictions)),
+          "staked ETH": ethers.formatEther(player.staked),
+          "points (ETH)": ethers.formatEther(player.points),
+        })),
+      );
+
+      const totalWins = players.reduce((sum, player) => sum + player.wins, 0);
+      const totalPredictions = players.reduce((sum, player) => sum + player.predictions, 0);
+      const totalStaked = players.reduce((sum, player) => sum + player.staked, 0n);
+      const sorted = players.map((player) => player.points).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const totalPoints = sorted.reduce((sum, points) => sum + points, 0n);
+      const median =
+        sorted.length % 2 === 1
+          ? sorted[(sorted.length - 1) / 2]
+          : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2n;
+      const received = (await ethers.provider.getBalance(deployment.address)) - startBalance;
+      const numericPrices = clearPrices.map(Number);
+
+      console.log(`Prices: ${clearPrices[0]} -> ${clearPrices[days]}`);
+      console.log(`Range: ${Math.min(...numericPrices)} - ${Math.max(...numericPrices)}`);
+      const winRate = percent(BigInt(totalWins), BigInt(totalPredictions));
+      console.log(`Win rate: ${winRate} (${totalWins}/${totalPredictions})`);
+      console.log(
+        `Points: total ${ethers.formatEther(totalPoints)}, min ${ethers.formatEther(sorted[0])}, ` +
+          `median ${ethers.formatEther(median)}, max ${ethers.formatEther(sorted[sorted.length - 1])}, ` +
+          `without points ${sorted.filter((points) => points === 0n).length}`,
+      );
+      // Points redeem 1:1 for wei, so this is how much of the season's payout its own stakes cover.
+      console.log(
+        `Contract balance: +${ethers.formatEther(received)} ETH from ${ethers.formatEther(totalStaked)} ETH staked, ` +
+          `${totalPoints === 0n ? "no points to cover" : `covering ${percent(received, totalPoints)} of the points`}`,
+      );
+      console.table(
+        [...gas].map(([operation, used]) => ({
+          operation,
+          count: used.length,
+          "avg gas": (used.reduce((sum, value) => sum + value, 0n) / BigInt(used.length)).toString(),
+          "max gas": used.reduce((max, value) => (value > max ? value : max), 0n).toString(),
+        })),
+      );
+    } finally {
+      if (!taskArguments.keep) {
+        const reachedBlock = await ethers.provider.getBlockNumber();
+        await network.provider.send("evm_revert", [snapshot]);
+        // The node's mock coprocessor has already scanned the reverted blocks; fill their numbers with empty blocks so
+        // it neither goes backwards nor skips later FHE operations.
+        const revertedBlocks = reachedBlock - (await ethers.provider.getBlockNumber());
+        await network.provider.send("hardhat_mine", [`0x${revertedBlocks.toString(16)}`]);
+        console.log("Reverted the node to its state before the simulation (pass --keep to keep it).");
+      }
+    }
+  });
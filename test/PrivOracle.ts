@@ -1,17 +1,33 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ethers, fhevm } from "hardhat";
-import { PrivOracle, PrivOracle__factory } from "../types";
+import { ConfidentialTestToken, MockAggregatorV3, PrivOracle, PrivOracle__factory, PrivPoints } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
 };
 
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("PrivOracle")) as PrivOracle__factory;
+  const sentiment = await (await ethers.getContractFactory("CrowdSentiment")).deploy();
+  const redemptions = await (await ethers.getContractFactory("PointRedemptions")).deploy();
+  const pools = await (await ethers.getContractFactory("PoolSettlement")).deploy();
+  const reveals = await (await ethers.getContractFactory("PredictionReveals")).deploy();
+  const scoring = await (await ethers.getContractFactory("PredictionScoring")).deploy();
+  const reports = await (await ethers.getContractFactory("PriceReports")).deploy();
+  const factory = (await ethers.getContractFactory("PrivOracle", {
+    libraries: {
+      CrowdSentiment: await sentiment.getAddress(),
+      PointRedemptions: await redemptions.getAddress(),
+      PoolSettlement: await pools.getAddress(),
+      PredictionReveals: await reveals.getAddress(),
+      PredictionScoring: await scoring.getAddress(),
+      PriceReports: await reports.getAddress(),
+    },
+  })) as PrivOracle__factory;
   const contract = (await factory.deploy()) as PrivOracle;
   const contractAddress = await contract.getAddress();
   return { contract, contractAddress };
@@ -24,7 +40,7 @@ describe("PrivOracle", function () {
 
   before(async function () {
     const ethSigners = await ethers.getSigners();
-    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
   });
 
   beforeEach(async function () {
@@ -36,6 +52,15 @@ describe("PrivOracle", function () {
     ({ contract, contractAddress } = await deployFixture());
   });
 
+  // Withdrawals prove the outstanding points total, so reveal it first.
+  async function withdrawTreasury(signer: HardhatEthersSigner, to: string, amount: bigint) {
+    await (await contract.connect(signers.deployer).requestOutstandingPointsReveal()).wait();
+    const handle = await contract.getOutstandingPoints();
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const outstanding = decryption.clearValues[handle as `0x${string}`] as bigint;
+    return contract.connect(signer).withdrawTreasury(to, amount, outstanding, decryption.decryptionProof);
+  }
+
   it("rewards a correct prediction", async function () {
     const day = await contract.currentDay();
     const nextDay = day + 1n;
@@ -47,13 +72,9 @@ describe("PrivOracle", function () {
       .add8(1n)
       .encrypt();
 
-    const placeTx = await contract.connect(signers.alice).placePrediction(
-      0,
-      encrypted.handles[0],
-      encrypted.handles[1],
-      encrypted.inputProof,
-      { value: stake },
-    );
+    const placeTx = await contract
+      .connect(signers.alice)
+      .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake });
     await placeTx.wait();
 
     await time.increaseTo(Number(nextDay * 86400n) + 5);
@@ -86,13 +107,9 @@ describe("PrivOracle", function () {
       .add8(1n)
       .encrypt();
 
-    const placeTx = await contract.connect(signers.alice).placePrediction(
-      1,
-      encrypted.handles[0],
-      encrypted.handles[1],
-      encrypted.inputProof,
-      { value: stake },
-    );
+    const placeTx = await contract
+      .connect(signers.alice)
+      .placePrediction(1, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake });
     await placeTx.wait();
 
     await time.increaseTo(Number(nextDay * 86400n) + 5);
@@ -113,4 +130,1555 @@ describe("PrivOracle", function () {
 
     expect(clearPoints).to.eq(0);
   });
+
+  it("compares prices at the asset's decimal precision", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const [, decimals] = await contract.getAsset(0);
+    const stake = ethers.parseEther("0.01");
+
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(ethers.parseUnits("3521.46", decimals))
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+    ).wait();
+
+    await time.increaseTo(Number(nextDay * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, ethers.parseUnits("3521.47", decimals))).wait();
+    await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+
+    const [recordedPrice] = await contract.getPrice(0, nextDay);
+    expect(recordedPrice).to.eq(352147n);
+
+    const encryptedPoints = await contract.getPoints(signers.alice.address);
+    const clearPoints = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      encryptedPoints,
+      contractAddress,
+      signers.alice,
+    );
+    expect(clearPoints).to.eq(stake);
+  });
+
+  it("accepts predictions only for enabled registered assets", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    await expect(contract.connect(signers.alice).addAsset("SOL", 4)).to.be.revertedWithCustomError(
+      contract,
+      "OwnerOnly",
+    );
+    await (await contract.connect(signers.deployer).addAsset("SOL", 4)).wait();
+    await expect(contract.connect(signers.deployer).addAsset("SOL", 2)).to.be.revertedWithCustomError(
+      contract,
+      "AssetExists",
+    );
+
+    const [symbols, decimals, enabled] = await contract.listAssets();
+    expect(symbols).to.deep.eq(["ETH", "BTC", "SOL"]);
+    expect(decimals).to.deep.eq([2n, 2n, 4n]);
+    expect(enabled).to.deep.eq([true, true, true]);
+
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1500000n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(2, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1n })
+    ).wait();
+
+    await (await contract.connect(signers.deployer).disableAsset(2)).wait();
+    const [, , stillEnabled] = await contract.getAsset(2);
+    expect(stillEnabled).to.eq(false);
+
+    await expect(
+      contract
+        .connect(signers.bob)
+        .placePrediction(2, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1n }),
+    ).to.be.revertedWithCustomError(contract, "InactiveAsset");
+    await expect(
+      contract
+        .connect(signers.bob)
+        .placePrediction(3, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1n }),
+    ).to.be.revertedWithCustomError(contract, "InvalidAsset");
+  });
+
+  it("redeems points for ETH exactly once", async function () {
+    const day = await contract.currentDay();
+    const nextDay = day + 1n;
+    const stake = ethers.parseEther("0.1");
+
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+
+    const placeTx = await contract
+      .connect(signers.alice)
+      .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake });
+    await placeTx.wait();
+
+    await time.increaseTo(Number(nextDay * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+    await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+
+    await (await contract.connect(signers.alice).requestFullRedemption()).wait();
+    const [user, amountHandle, , finalized] = await contract.getRedemption(1);
+    expect(user).to.eq(signers.alice.address);
+    expect(finalized).to.eq(false);
+
+    const decryption = await fhevm.publicDecrypt([amountHandle]);
+    const clearAmount = decryption.clearValues[amountHandle as `0x${string}`] as bigint;
+    expect(clearAmount).to.eq(stake);
+
+    await expect(
+      contract.connect(signers.deployer).finalizeRedemption(1, clearAmount, decryption.decryptionProof),
+    ).to.changeEtherBalances([signers.alice, contract], [stake, -stake]);
+
+    await expect(
+      contract.connect(signers.deployer).finalizeRedemption(1, clearAmount, decryption.decryptionProof),
+    ).to.be.revertedWithCustomError(contract, "AlreadyRedeemed");
+
+    const encryptedPoints = await contract.getPoints(signers.alice.address);
+    const clearPoints = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      encryptedPoints,
+      contractAddress,
+      signers.alice,
+    );
+    expect(clearPoints).to.eq(0);
+  });
+
+  it("burns nothing when a redemption exceeds the points balance", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const stake = ethers.parseEther("0.05");
+
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+    ).wait();
+
+    const request = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add128(ethers.parseEther("1"))
+      .encrypt();
+    await (await contract.connect(signers.alice).requestRedemption(request.handles[0], request.inputProof)).wait();
+
+    const [, amountHandle] = await contract.getRedemption(1);
+    const decryption = await fhevm.publicDecrypt([amountHandle]);
+    expect(decryption.clearValues[amountHandle as `0x${string}`]).to.eq(0n);
+
+    const forged = contract.connect(signers.deployer).finalizeRedemption(1, 1n, decryption.decryptionProof);
+    await expect(forged).to.be.reverted;
+  });
+
+  it("confirms a batch and skips the entries that are not ready", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    for (const asset of [0, 1]) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(1900n)
+        .add8(1n)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .placePrediction(asset, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: 100n,
+          })
+      ).wait();
+    }
+
+    await time.increaseTo(Number(nextDay * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+
+    const batch = contract.connect(signers.alice).confirmPredictions([0, 1, 0], [nextDay, nextDay, nextDay + 1n]);
+    await expect(batch).to.emit(contract, "PredictionConfirmed").withArgs(signers.alice.address, 0, nextDay);
+    await expect(batch)
+      .to.emit(contract, "PredictionSkipped")
+      .withArgs(signers.alice.address, 1, nextDay, "Price not recorded");
+    await expect(batch)
+      .to.emit(contract, "PredictionSkipped")
+      .withArgs(signers.alice.address, 0, nextDay + 1n, "Too early");
+
+    await (await contract.connect(signers.deployer).recordDailyPrice(1, 1800)).wait();
+    const preview = await contract.connect(signers.alice).confirmPredictions.staticCall([0, 1], [nextDay, nextDay]);
+    expect(preview).to.deep.eq([false, true]);
+    await (await contract.connect(signers.alice).confirmPredictions([0, 1], [nextDay, nextDay])).wait();
+    await expect(contract.connect(signers.alice).confirmPredictions([0], [])).to.be.revertedWithCustomError(
+      contract,
+      "LengthMismatch",
+    );
+
+    const encryptedPoints = await contract.getPoints(signers.alice.address);
+    const clearPoints = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      encryptedPoints,
+      contractAddress,
+      signers.alice,
+    );
+    expect(clearPoints).to.eq(100n);
+  });
+
+  it("lets a keeper confirm for a user in exchange for a tip", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const stake = 10_000n;
+    await (await contract.connect(signers.deployer).setKeeperTip(100)).wait();
+    await expect(contract.connect(signers.deployer).setKeeperTip(501)).to.be.revertedWithCustomError(
+      contract,
+      "TipTooHigh",
+    );
+
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+    ).wait();
+
+    await time.increaseTo(Number(nextDay * 86400n) + 5);
+    await expect(contract.connect(signers.bob).confirmFor(signers.alice.address, 0, nextDay))
+      .to.be.revertedWithCustomError(contract, "NotConfirmable")
+      .withArgs("Price not recorded");
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+
+    const keeperRun = contract.connect(signers.bob).confirmFor(signers.alice.address, 0, nextDay);
+    await expect(keeperRun).to.changeEtherBalances([signers.bob, contract], [100n, -100n]);
+    await expect(keeperRun)
+      .to.emit(contract, "KeeperTipPaid")
+      .withArgs(signers.bob.address, signers.alice.address, 0, nextDay, 100n);
+    await expect(contract.connect(signers.bob).confirmFor(signers.alice.address, 0, nextDay))
+      .to.be.revertedWithCustomError(contract, "NotConfirmable")
+      .withArgs("Already confirmed");
+
+    const encryptedPoints = await contract.getPoints(signers.alice.address);
+    const clearPoints = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      encryptedPoints,
+      contractAddress,
+      signers.alice,
+    );
+    expect(clearPoints).to.eq(stake - 100n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, contractAddress, signers.bob)).to.be
+      .rejected;
+  });
+
+  it("refunds stakes for a day whose price was never recorded", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const stake = ethers.parseEther("0.2");
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+    ).wait();
+
+    await time.increaseTo(Number((nextDay + 2n) * 86400n) + 5);
+    await expect(contract.connect(signers.alice).claimRefund(0, nextDay)).to.be.revertedWithCustomError(
+      contract,
+      "RefundWindowOpen",
+    );
+
+    await time.increaseTo(Number((nextDay + 3n) * 86400n) + 5);
+    await expect(contract.connect(signers.deployer).backfillDailyPrice(0, nextDay, 2000)).to.be.revertedWithCustomError(
+      contract,
+      "BackfillWindowClosed",
+    );
+    await expect(contract.connect(signers.alice).claimRefund(0, nextDay)).to.changeEtherBalances(
+      [signers.alice, contract],
+      [stake, -stake],
+    );
+    await expect(contract.connect(signers.alice).claimRefund(0, nextDay)).to.be.revertedWithCustomError(
+      contract,
+      "AlreadyRefunded",
+    );
+    await expect(contract.connect(signers.bob).claimRefund(0, nextDay)).to.be.revertedWithCustomError(
+      contract,
+      "PredictionMissing",
+    );
+
+    await (await contract.connect(signers.deployer).setRefundWindow(7)).wait();
+    await (await contract.connect(signers.deployer).backfillDailyPrice(0, nextDay, 2000)).wait();
+    await expect(contract.connect(signers.alice).confirmPrediction(0, nextDay))
+      .to.be.revertedWithCustomError(contract, "NotConfirmable")
+      .withArgs("Already refunded");
+  });
+
+  it("lets a reporter backfill a missed day within the refund window", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 500n })
+    ).wait();
+
+    await time.increaseTo(Number((nextDay + 1n) * 86400n) + 5);
+    await expect(contract.connect(signers.alice).backfillDailyPrice(0, nextDay, 2000)).to.be.revertedWithCustomError(
+      contract,
+      "MissingRole",
+    );
+    await expect(
+      contract.connect(signers.deployer).backfillDailyPrice(0, nextDay + 1n, 2000),
+    ).to.be.revertedWithCustomError(contract, "DayNotPast");
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2100)).wait();
+    await (await contract.connect(signers.deployer).backfillDailyPrice(0, nextDay, 2000)).wait();
+    expect(await contract.getLatestDay(0)).to.eq(nextDay + 1n);
+
+    await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+    await time.increaseTo(Number((nextDay + 3n) * 86400n) + 5);
+    await expect(contract.connect(signers.alice).claimRefund(0, nextDay)).to.be.revertedWithCustomError(
+      contract,
+      "PriceAlreadyRecorded",
+    );
+
+    const encryptedPoints = await contract.getPoints(signers.alice.address);
+    const clearPoints = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      encryptedPoints,
+      contractAddress,
+      signers.alice,
+    );
+    expect(clearPoints).to.eq(500n);
+  });
+
+  it("pays a horizon bonus for predictions further out", async function () {
+    const today = await contract.currentDay();
+    const targetDay = today + 3n;
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    const place = (day: bigint) =>
+      contract
+        .connect(signers.alice)
+        .placePrediction(0, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1000n });
+
+    await expect(contract.connect(signers.bob).fundBonusReserve({ value: 100n }))
+      .to.emit(contract, "BonusReserveFunded")
+      .withArgs(signers.bob.address, 100n);
+
+    await expect(place(today)).to.be.revertedWithCustomError(contract, "DayOutsideHorizon");
+    await expect(place(today + 31n)).to.be.revertedWithCustomError(contract, "DayOutsideHorizon");
+    await (await place(targetDay)).wait();
+    await expect(place(targetDay)).to.be.revertedWithCustomError(contract, "PredictionExists");
+    await (await place(today + 1n)).wait();
+    expect(await contract.getBonusReserve()).to.eq(0n);
+    expect(await contract.getOpenStake()).to.eq(2100n);
+
+    const [, , , , , , , , horizon] = await contract.getPrediction(signers.alice.address, 0, targetDay);
+    expect(horizon).to.eq(3n);
+    // Changing the bonus later does not touch predictions already placed.
+    await (await contract.connect(signers.deployer).setHorizon(30, 0)).wait();
+
+    await time.increaseTo(Number(targetDay * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+    await (await contract.connect(signers.alice).confirmPrediction(0, targetDay)).wait();
+
+    const encryptedPoints = await contract.getPoints(signers.alice.address);
+    const clearPoints = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      encryptedPoints,
+      contractAddress,
+      signers.alice,
+    );
+    expect(clearPoints).to.eq(1100n);
+  });
+
+  it("only pays horizon bonuses the bonus reserve can cover", async function () {
+    const today = await contract.currentDay();
+    const place = async (signer: HardhatEthersSigner, day: bigint) => {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add64(1900n)
+        .add8(1n)
+        .encrypt();
+      await (
+        await contract
+          .connect(signer)
+          .placePrediction(0, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1000n })
+      ).wait();
+    };
+
+    // Both predictions are three days out and would earn 100 wei each; the reserve holds 150.
+    await (await contract.connect(signers.deployer).fundBonusReserve({ value: 150n })).wait();
+    await place(signers.alice, today + 3n);
+    await place(signers.bob, today + 3n);
+    expect(await contract.getBonusReserve()).to.eq(0n);
+    expect(await contract.getOpenStake()).to.eq(2150n);
+
+    await time.increaseTo(Number((today + 3n) * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+    const points: bigint[] = [];
+    for (const player of [signers.alice, signers.bob]) {
+      await (await contract.connect(player).confirmPrediction(0, today + 3n)).wait();
+      const encryptedPoints = await contract.getPoints(player.address);
+      points.push(await fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, contractAddress, player));
+    }
+    expect(points).to.deep.eq([1100n, 1050n]);
+
+    // Every point is backed: the contract holds exactly what the winners can redeem and the treasury gets nothing.
+    expect(await ethers.provider.getBalance(contractAddress)).to.eq(2150n);
+    await expect(withdrawTreasury(signers.deployer, signers.deployer.address, 1n)).to.be.revertedWithCustomError(
+      contract,
+      "ExceedsAvailableBalance",
+    );
+    for (const [index, player] of [signers.alice, signers.bob].entries()) {
+      await (await contract.connect(player).requestFullRedemption()).wait();
+      const [, amountHandle] = await contract.getRedemption(index + 1);
+      const decryption = await fhevm.publicDecrypt([amountHandle]);
+      await expect(
+        contract.finalizeRedemption(
+          index + 1,
+          decryption.clearValues[amountHandle as `0x${string}`] as bigint,
+          decryption.decryptionProof,
+        ),
+      ).to.changeEtherBalance(player, points[index]);
+    }
+    expect(await ethers.provider.getBalance(contractAddress)).to.eq(0n);
+  });
+
+  it("hands ownership over only once the new owner accepts", async function () {
+    await (await contract.connect(signers.deployer).transferOwnership(signers.alice.address)).wait();
+    expect(await contract.owner()).to.eq(signers.deployer.address);
+    expect(await contract.pendingOwner()).to.eq(signers.alice.address);
+
+    await expect(contract.connect(signers.bob).acceptOwnership()).to.be.revertedWithCustomError(
+      contract,
+      "NotPendingOwner",
+    );
+    await expect(contract.connect(signers.alice).acceptOwnership())
+      .to.emit(contract, "OwnerUpdated")
+      .withArgs(signers.deployer.address, signers.alice.address);
+
+    expect(await contract.owner()).to.eq(signers.alice.address);
+    expect(await contract.pendingOwner()).to.eq(ethers.ZeroAddress);
+    await expect(contract.connect(signers.deployer).addAsset("SOL", 4)).to.be.revertedWithCustomError(
+      contract,
+      "OwnerOnly",
+    );
+  });
+
+  it("separates the reporter, pauser and treasury keys from the owner", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const reporterRole = ethers.id("REPORTER_ROLE");
+    const pauserRole = ethers.id("PAUSER_ROLE");
+    const treasuryRole = ethers.id("TREASURY_ROLE");
+    expect(await contract.getRoles(signers.deployer.address)).to.deep.eq([true, true, true]);
+
+    await (await contract.connect(signers.deployer).grantRole(reporterRole, signers.bob.address)).wait();
+    await (await contract.connect(signers.deployer).revokeRole(reporterRole, signers.deployer.address)).wait();
+    await expect(contract.connect(signers.deployer).recordDailyPrice(0, 2000)).to.be.revertedWithCustomError(
+      contract,
+      "MissingRole",
+    );
+    await expect(contract.connect(signers.bob).recordDailyPrice(0, 2000))
+      .to.emit(contract, "PriceRecorded")
+      .withArgs(0, nextDay - 1n, 2000);
+
+    await (await contract.connect(signers.deployer).grantRole(pauserRole, signers.bob.address)).wait();
+    await (await contract.connect(signers.deployer).revokeRole(pauserRole, signers.deployer.address)).wait();
+    await expect(contract.connect(signers.deployer).pause()).to.be.revertedWithCustomError(contract, "MissingRole");
+    await expect(
+      contract.connect(signers.alice).grantRole(pauserRole, signers.alice.address),
+    ).to.be.revertedWithCustomError(contract, "OwnerOnly");
+
+    await (await contract.connect(signers.bob).pause()).wait();
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await expect(
+      contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1n }),
+    ).to.be.revertedWithCustomError(contract, "EnforcedPause");
+    await (await contract.connect(signers.bob).unpause()).wait();
+
+    await (await signers.alice.sendTransaction({ to: contractAddress, value: ethers.parseEther("1") })).wait();
+    await expect(
+      withdrawTreasury(signers.bob, signers.bob.address, ethers.parseEther("1")),
+    ).to.be.revertedWithCustomError(contract, "MissingRole");
+    await expect(
+      withdrawTreasury(signers.deployer, signers.deployer.address, ethers.parseEther("1.5")),
+    ).to.be.revertedWithCustomError(contract, "ExceedsAvailableBalance");
+    await expect(
+      withdrawTreasury(signers.deployer, signers.bob.address, ethers.parseEther("1")),
+    ).to.changeEtherBalances([signers.bob, contract], [ethers.parseEther("1"), -ethers.parseEther("1")]);
+
+    await (await contract.connect(signers.deployer).revokeRole(treasuryRole, signers.deployer.address)).wait();
+    expect(await contract.getRoles(signers.deployer.address)).to.deep.eq([false, false, false]);
+  });
+
+  it("keeps stakes of unsettled predictions out of treasury withdrawals", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const stake = ethers.parseEther("0.5");
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+    ).wait();
+    await (await signers.bob.sendTransaction({ to: contractAddress, value: ethers.parseEther("1") })).wait();
+    expect(await contract.getOpenStake()).to.eq(stake);
+
+    await expect(
+      withdrawTreasury(signers.deployer, signers.deployer.address, ethers.parseEther("1.2")),
+    ).to.be.revertedWithCustomError(contract, "ExceedsAvailableBalance");
+    await (await withdrawTreasury(signers.deployer, signers.deployer.address, ethers.parseEther("1"))).wait();
+
+    // A wrong prediction leaves its stake to the treasury.
+    await time.increaseTo(Number(nextDay * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 1800)).wait();
+    await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+    expect(await contract.getOpenStake()).to.eq(0n);
+    await expect(withdrawTreasury(signers.deployer, signers.bob.address, stake)).to.changeEtherBalances(
+      [signers.bob, contract],
+      [stake, -stake],
+    );
+  });
+
+  it("keeps outstanding points out of treasury withdrawals", async function () {
+    const nextDay = (await contract.currentDay()) + 1n;
+    const stake = ethers.parseEther("0.5");
+    const encrypted = await fhevm
+      .createEncryptedInput(contractAddress, signers.alice.address)
+      .add64(1900n)
+      .add8(1n)
+      .encrypt();
+    await (
+      await contract
+        .connect(signers.alice)
+        .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+    ).wait();
+    await (await signers.bob.sendTransaction({ to: contractAddress, value: ethers.parseEther("1") })).wait();
+
+    await time.increaseTo(Number(nextDay * 86400n) + 5);
+    await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+    await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+    expect(await contract.getOpenStake()).to.eq(0n);
+
+    // Alice's winning points still have to be redeemable after the withdrawal.
+    await (await contract.connect(signers.deployer).requestOutstandingPointsReveal()).wait();
+    const handle = await contract.getOutstandingPoints();
+    const decryption = await fhevm.publicDecrypt([handle]);
+    const outstanding = decryption.clearValues[handle as `0x${string}`] as bigint;
+    expect(outstanding).to.eq(stake);
+    await expect(
+      contract
+        .connect(signers.deployer)
+        .withdrawTreasury(signers.deployer.address, ethers.parseEther("1.1"), outstanding, decryption.decryptionProof),
+    ).to.be.revertedWithCustomError(contract, "ExceedsAvailableBalance");
+    await expect(
+      contract.connect(signers.deployer).withdrawTreasury(signers.bob.address, ethers.parseEther("1"), 0n, "0x"),
+    ).to.be.reverted;
+    await (
+      await contract
+        .connect(signers.deployer)
+        .withdrawTreasury(signers.bob.address, ethers.parseEther("1"), outstanding, decryption.decryptionProof)
+    ).wait();
+
+    await (await contract.connect(signers.alice).requestFullRedemption()).wait();
+    const [, amountHandle] = await contract.getRedemption(1);
+    const redemption = await fhevm.publicDecrypt([amountHandle]);
+    await expect(
+      contract.finalizeRedemption(
+        1,
+        redemption.clearValues[amountHandle as `0x${string}`] as bigint,
+        redemption.decryptionProof,
+      ),
+    ).to.changeEtherBalances([signers.alice, contract], [stake, -stake]);
+
+    // The redeemed points no longer count, and the proof of the old total no longer matches.
+    await expect(
+      contract
+        .connect(signers.deployer)
+        .withdrawTreasury(signers.bob.address, 1n, outstanding, decryption.decryptionProof),
+    ).to.be.reverted;
+    await (await contract.connect(signers.deployer).requestOutstandingPointsReveal()).wait();
+    const remaining = await contract.getOutstandingPoints();
+    const cleared = await fhevm.publicDecrypt([remaining]);
+    expect(cleared.clearValues[remaining as `0x${string}`]).to.eq(0n);
+  });
+
+  describe("range predictions", function () {
+    async function placeBand(signer: HardhatEthersSigner, low: bigint, high: bigint, stake: bigint) {
+      const nextDay = (await contract.currentDay()) + 1n;
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add64(low)
+        .add64(high)
+        .encrypt();
+      await (
+        await contract
+          .connect(signer)
+          .placeRangePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: stake,
+          })
+      ).wait();
+    }
+
+    async function settle(price: number, players: HardhatEthersSigner[]) {
+      const day = (await contract.currentDay()) + 1n;
+      await time.increaseTo(Number(day * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, price)).wait();
+
+      const points: bigint[] = [];
+      for (const player of players) {
+        await (await contract.connect(player).confirmPrediction(0, day)).wait();
+        const encryptedPoints = await contract.getPoints(player.address);
+        points.push(await fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, contractAddress, player));
+      }
+      return points;
+    }
+
+    it("pays more for tighter bands that contain the price", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placeBand(signers.alice, 1995n, 2010n, 1000n);
+      await placeBand(signers.bob, 1900n, 2100n, 1000n);
+
+      const [, , , , , , band, upper] = await contract.getPrediction(signers.alice.address, 0, day);
+      expect(band).to.eq(true);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, upper, contractAddress, signers.alice)).to.eq(2010n);
+
+      expect(await settle(2000, [signers.alice, signers.bob])).to.deep.eq([4000n, 1000n]);
+    });
+
+    it("pays nothing outside the band or for an inverted band", async function () {
+      await placeBand(signers.alice, 2001n, 2100n, 1000n);
+      await placeBand(signers.bob, 2100n, 1900n, 1000n);
+
+      expect(await settle(2000, [signers.alice, signers.bob])).to.deep.eq([0n, 0n]);
+    });
+
+    it("counts the band edges as inside", async function () {
+      await placeBand(signers.alice, 2000n, 2040n, 1000n);
+      await placeBand(signers.bob, 1950n, 2000n, 1000n);
+
+      expect(await settle(2000, [signers.alice, signers.bob])).to.deep.eq([3000n, 3000n]);
+    });
+  });
+
+  describe("accuracy tiers", function () {
+    // At a settled price of 2000, the tiers reach 20, 100 and 200 away from it.
+    const tierDistances = [100n, 500n, 1000n];
+    const tierRewards = [30000n, 20000n, 10000n];
+
+    async function settleGuesses(guesses: bigint[]) {
+      const players = (await ethers.getSigners()).slice(3, 3 + guesses.length);
+      const nextDay = (await contract.currentDay()) + 1n;
+      for (const [index, player] of players.entries()) {
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, player.address)
+          .add64(guesses[index])
+          .add8(guesses[index] < 2000n ? 1n : 2n)
+          .encrypt();
+        await (
+          await contract
+            .connect(player)
+            .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+              value: 1000n,
+            })
+        ).wait();
+      }
+
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+
+      const points: bigint[] = [];
+      for (const player of players) {
+        await (await contract.connect(player).confirmPrediction(0, nextDay)).wait();
+        const encryptedPoints = await contract.getPoints(player.address);
+        points.push(await fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, contractAddress, player));
+      }
+      return points;
+    }
+
+    beforeEach(async function () {
+      await (await contract.connect(signers.deployer).setAccuracyTiers(tierDistances, tierRewards)).wait();
+    });
+
+    it("pays each tier up to and including its edge", async function () {
+      expect(await settleGuesses([1980n, 1979n, 1900n, 1899n, 1800n, 1799n])).to.deep.eq([
+        3000n,
+        2000n,
+        2000n,
+        1000n,
+        1000n,
+        0n,
+      ]);
+    });
+
+    it("measures the distance on both sides and still requires the right direction", async function () {
+      // 2020 and 2100 bet on "less than"; 2000 is a tie and never correct.
+      expect(await settleGuesses([2020n, 2021n, 2100n, 2000n])).to.deep.eq([3000n, 2000n, 2000n, 0n]);
+    });
+
+    it("validates tiers and can be switched off", async function () {
+      const owner = contract.connect(signers.deployer);
+      await expect(owner.setAccuracyTiers([100n], [])).to.be.revertedWithCustomError(contract, "LengthMismatch");
+      await expect(owner.setAccuracyTiers([500n, 100n], [10000n, 20000n])).to.be.revertedWithCustomError(
+        contract,
+        "TiersNotAscending",
+      );
+      await expect(owner.setAccuracyTiers([100n], [100001n])).to.be.revertedWithCustomError(contract, "RewardTooHigh");
+      expect((await contract.getAccuracyTiers()).map((tier) => tier.maxDistanceBps)).to.deep.eq(tierDistances);
+
+      await (await owner.setAccuracyTiers([], [])).wait();
+      expect(await contract.getAccuracyTiers()).to.deep.eq([]);
+      expect(await settleGuesses([1n])).to.deep.eq([1000n]);
+    });
+  });
+
+  describe("win streaks", function () {
+    // Predicts on the next day, lets it pass and settles it at 2000; a guess above 2000 is wrong.
+    async function playDay(guess: bigint) {
+      const nextDay = (await contract.currentDay()) + 1n;
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(guess)
+        .add8(1n)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: 1000n,
+          })
+      ).wait();
+
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+      await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+    }
+
+    async function decryptStreak() {
+      const [streak] = await contract.getStreak(signers.alice.address, 0);
+      return fhevm.userDecryptEuint(FhevmType.euint32, streak, contractAddress, signers.alice);
+    }
+
+    async function decryptPoints() {
+      const encryptedPoints = await contract.getPoints(signers.alice.address);
+      return fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, contractAddress, signers.alice);
+    }
+
+    beforeEach(async function () {
+      await (await contract.connect(signers.deployer).setStreakBonuses([2n, 3n], [1000n, 5000n])).wait();
+    });
+
+    it("grows with consecutive wins and pays the bonus of the highest tier reached", async function () {
+      await playDay(1900n);
+      await playDay(1900n);
+      await playDay(1900n);
+
+      expect(await decryptStreak()).to.eq(3n);
+      expect(await decryptPoints()).to.eq(1000n + 1100n + 1500n);
+      const [, lastDay] = await contract.getStreak(signers.alice.address, 0);
+      expect(lastDay).to.eq(await contract.currentDay());
+    });
+
+    it("resets on a wrong outcome", async function () {
+      await playDay(1900n);
+      await playDay(2100n);
+      expect(await decryptStreak()).to.eq(0n);
+
+      await playDay(1900n);
+      expect(await decryptStreak()).to.eq(1n);
+      expect(await decryptPoints()).to.eq(2000n);
+    });
+
+    it("resets after a missed day", async function () {
+      await playDay(1900n);
+      await playDay(1900n);
+      await time.increase(86400);
+      await playDay(1900n);
+
+      expect(await decryptStreak()).to.eq(1n);
+      expect(await decryptPoints()).to.eq(1000n + 1100n + 1000n);
+    });
+
+    it("validates bonuses", async function () {
+      const owner = contract.connect(signers.deployer);
+      await expect(owner.setStreakBonuses([2n], [])).to.be.revertedWithCustomError(contract, "LengthMismatch");
+      await expect(owner.setStreakBonuses([0n], [1000n])).to.be.revertedWithCustomError(contract, "TiersNotAscending");
+      await expect(owner.setStreakBonuses([3n, 3n], [1000n, 2000n])).to.be.revertedWithCustomError(
+        contract,
+        "TiersNotAscending",
+      );
+      await expect(owner.setStreakBonuses([2n], [100001n])).to.be.revertedWithCustomError(contract, "BonusTooHigh");
+      await expect(contract.connect(signers.alice).setStreakBonuses([], [])).to.be.revertedWithCustomError(
+        contract,
+        "OwnerOnly",
+      );
+      expect((await contract.getStreakBonuses()).map((bonus) => bonus.minStreak)).to.deep.eq([2n, 3n]);
+    });
+  });
+
+  describe("reveals", function () {
+    async function settleDay(place: (day: bigint) => Promise<unknown>) {
+      const nextDay = (await contract.currentDay()) + 1n;
+      await place(nextDay);
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+      return nextDay;
+    }
+
+    async function requestReveal(player: HardhatEthersSigner, day: bigint) {
+      const receipt = await (await contract.connect(player).revealPrediction(0, day)).wait();
+      const requested = receipt?.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "PredictionRevealRequested");
+      const handles: string[] = [...requested!.args.handles];
+      return fhevm.publicDecrypt(handles);
+    }
+
+    it("publishes a threshold prediction and its outcome", async function () {
+      const day = await settleDay(async (nextDay) => {
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, signers.alice.address)
+          .add64(1900n)
+          .add8(1n)
+          .encrypt();
+        await (
+          await contract
+            .connect(signers.alice)
+            .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+              value: 1000n,
+            })
+        ).wait();
+      });
+
+      await expect(contract.connect(signers.alice).revealPrediction(0, day)).to.be.revertedWithCustomError(
+        contract,
+        "PredictionNotConfirmed",
+      );
+      await (await contract.connect(signers.alice).confirmPrediction(0, day)).wait();
+      await expect(
+        contract.finalizeReveal(signers.alice.address, 0, day, 1900n, 1, 0n, true, "0x"),
+      ).to.be.revertedWithCustomError(contract, "RevealNotRequested");
+
+      const decryption = await requestReveal(signers.alice, day);
+      await expect(contract.connect(signers.alice).revealPrediction(0, day)).to.be.revertedWithCustomError(
+        contract,
+        "RevealAlreadyRequested",
+      );
+      await expect(
+        contract.finalizeReveal(signers.alice.address, 0, day, 1901n, 1, 0n, true, decryption.decryptionProof),
+      ).to.be.reverted;
+
+      // Anyone may publish the values once they are decryptable.
+      await expect(
+        contract
+          .connect(signers.bob)
+          .finalizeReveal(signers.alice.address, 0, day, 1900n, 1, 0n, true, decryption.decryptionProof),
+      )
+        .to.emit(contract, "PredictionRevealed")
+        .withArgs(signers.alice.address, 0, day, 1900n, 1, 0n, false, true);
+      expect(await contract.getReveal(signers.alice.address, 0, day)).to.deep.eq([
+        true,
+        true,
+        1900n,
+        1n,
+        0n,
+        false,
+        true,
+      ]);
+      await expect(
+        contract.finalizeReveal(signers.alice.address, 0, day, 1900n, 1, 0n, true, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "PredictionAlreadyRevealed");
+    });
+
+    it("publishes both bounds of a missed band", async function () {
+      const day = await settleDay(async (nextDay) => {
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, signers.bob.address)
+          .add64(2010n)
+          .add64(2050n)
+          .encrypt();
+        await (
+          await contract
+            .connect(signers.bob)
+            .placeRangePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+              value: 1000n,
+            })
+        ).wait();
+      });
+      await (await contract.connect(signers.bob).confirmPrediction(0, day)).wait();
+
+      const decryption = await requestReveal(signers.bob, day);
+      await (
+        await contract.finalizeReveal(signers.bob.address, 0, day, 2010n, 0, 2050n, false, decryption.decryptionProof)
+      ).wait();
+      expect(await contract.getReveal(signers.bob.address, 0, day)).to.deep.eq([
+        true,
+        true,
+        2010n,
+        0n,
+        2050n,
+        true,
+        false,
+      ]);
+    });
+  });
+
+  describe("crowd sentiment", function () {
+    async function placeDirection(signer: HardhatEthersSigner, day: bigint, direction: bigint, stake: bigint) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add64(1900n)
+        .add8(direction)
+        .encrypt();
+      await (
+        await contract
+          .connect(signer)
+          .placePrediction(0, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: stake })
+      ).wait();
+    }
+
+    it("publishes the up and down stake totals once the day starts", async function () {
+      const nextDay = (await contract.currentDay()) + 1n;
+      await placeDirection(signers.alice, nextDay, 1n, 3000n);
+      await placeDirection(signers.bob, nextDay, 2n, 1000n);
+
+      // Bands count for neither side.
+      const band = await fhevm
+        .createEncryptedInput(contractAddress, signers.deployer.address)
+        .add64(1900n)
+        .add64(2100n)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.deployer)
+          .placeRangePrediction(0, nextDay, band.handles[0], band.handles[1], band.inputProof, { value: 5000n })
+      ).wait();
+
+      await expect(contract.requestSentimentReveal(0, nextDay)).to.be.revertedWithCustomError(
+        contract,
+        "DayNotStarted",
+      );
+      await expect(contract.revealSentiment(0, nextDay, 3000n, 1000n, "0x")).to.be.revertedWithCustomError(
+        contract,
+        "SentimentNotRequested",
+      );
+
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await (await contract.connect(signers.bob).requestSentimentReveal(0, nextDay)).wait();
+      await expect(contract.requestSentimentReveal(0, nextDay)).to.be.revertedWithCustomError(
+        contract,
+        "SentimentAlreadyRequested",
+      );
+
+      const sentiment = await contract.getSentiment(0, nextDay);
+      const decryption = await fhevm.publicDecrypt([sentiment.encryptedUp, sentiment.encryptedDown]);
+      await expect(contract.revealSentiment(0, nextDay, 1000n, 3000n, decryption.decryptionProof)).to.be.reverted;
+      await expect(contract.revealSentiment(0, nextDay, 3000n, 1000n, decryption.decryptionProof))
+        .to.emit(contract, "SentimentRevealed")
+        .withArgs(0, nextDay, 3000n, 1000n);
+
+      const revealed = await contract.getSentiment(0, nextDay);
+      expect([revealed.requested, revealed.revealed, revealed.upStake, revealed.downStake]).to.deep.eq([
+        true,
+        true,
+        3000n,
+        1000n,
+      ]);
+      await expect(
+        contract.revealSentiment(0, nextDay, 3000n, 1000n, decryption.decryptionProof),
+      ).to.be.revertedWithCustomError(contract, "SentimentAlreadyRevealed");
+    });
+
+    it("reveals an empty day without a decryption", async function () {
+      const day = await contract.currentDay();
+      await expect(contract.requestSentimentReveal(0, day))
+        .to.emit(contract, "SentimentRevealed")
+        .withArgs(0, day, 0n, 0n);
+      const sentiment = await contract.getSentiment(0, day);
+      expect([sentiment.requested, sentiment.revealed]).to.deep.eq([true, true]);
+    });
+  });
+
+  describe("pool mode", function () {
+    const greater = 1n;
+    const less = 2n;
+
+    async function placePoolPrediction(signer: HardhatEthersSigner, direction: bigint, stake: bigint) {
+      const nextDay = (await contract.currentDay()) + 1n;
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add64(2000n)
+        .add8(direction)
+        .encrypt();
+      await (
+        await contract
+          .connect(signer)
+          .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: stake,
+          })
+      ).wait();
+    }
+
+    async function settleAndClaim(day: bigint, players: HardhatEthersSigner[]) {
+      await time.increaseTo(Number(day * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2100)).wait();
+      for (const player of players) {
+        await (await contract.connect(player).confirmPrediction(0, day)).wait();
+      }
+
+      await time.increaseTo(Number((day + 2n) * 86400n) + 5);
+      await (await contract.requestPoolSettlement(0, day)).wait();
+
+      const [, , totalHandle, winningHandle] = await contract.getPool(0, day);
+      const decryption = await fhevm.publicDecrypt([totalHandle, winningHandle]);
+      const totalStake = decryption.clearValues[totalHandle as `0x${string}`] as bigint;
+      const winningStake = decryption.clearValues[winningHandle as `0x${string}`] as bigint;
+      await (await contract.settlePool(0, day, totalStake, winningStake, decryption.decryptionProof)).wait();
+
+      const points: bigint[] = [];
+      for (const player of players) {
+        await (await contract.connect(player).claimPoolReward(0, day)).wait();
+        const encryptedPoints = await contract.getPoints(player.address);
+        points.push(await fhevm.userDecryptEuint(FhevmType.euint128, encryptedPoints, contractAddress, player));
+      }
+      return { totalStake, winningStake, points };
+    }
+
+    beforeEach(async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await (await contract.connect(signers.deployer).enablePoolMode(0, day)).wait();
+    });
+
+    it("returns every stake when all players win", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placePoolPrediction(signers.alice, greater, ethers.parseEther("0.1"));
+      await placePoolPrediction(signers.bob, greater, ethers.parseEther("0.3"));
+
+      const { totalStake, winningStake, points } = await settleAndClaim(day, [signers.alice, signers.bob]);
+
+      expect(totalStake).to.eq(ethers.parseEther("0.4"));
+      expect(winningStake).to.eq(ethers.parseEther("0.4"));
+      expect(points).to.deep.eq([ethers.parseEther("0.1"), ethers.parseEther("0.3")]);
+    });
+
+    it("releases pool stakes from the open stake at settlement", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placePoolPrediction(signers.alice, greater, ethers.parseEther("0.1"));
+      await placePoolPrediction(signers.bob, less, ethers.parseEther("0.3"));
+
+      await time.increaseTo(Number(day * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2100)).wait();
+      await (await contract.connect(signers.alice).confirmPrediction(0, day)).wait();
+      expect(await contract.getOpenStake()).to.eq(ethers.parseEther("0.4"));
+
+      // Bob never confirms; his stake still goes to the winner once the pool settles.
+      await time.increaseTo(Number((day + 2n) * 86400n) + 5);
+      await (await contract.requestPoolSettlement(0, day)).wait();
+      const [, , totalHandle, winningHandle] = await contract.getPool(0, day);
+      const decryption = await fhevm.publicDecrypt([totalHandle, winningHandle]);
+      await (
+        await contract.settlePool(
+          0,
+          day,
+          decryption.clearValues[totalHandle as `0x${string}`] as bigint,
+          decryption.clearValues[winningHandle as `0x${string}`] as bigint,
+          decryption.decryptionProof,
+        )
+      ).wait();
+      expect(await contract.getOpenStake()).to.eq(0n);
+
+      await expect(withdrawTreasury(signers.deployer, signers.deployer.address, 1n)).to.be.revertedWithCustomError(
+        contract,
+        "ExceedsAvailableBalance",
+      );
+    });
+
+    it("pays nobody when all players lose", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placePoolPrediction(signers.alice, less, ethers.parseEther("0.1"));
+      await placePoolPrediction(signers.bob, less, ethers.parseEther("0.3"));
+
+      const { totalStake, winningStake, points } = await settleAndClaim(day, [signers.alice, signers.bob]);
+
+      expect(totalStake).to.eq(ethers.parseEther("0.4"));
+      expect(winningStake).to.eq(0n);
+      expect(points).to.deep.eq([0n, 0n]);
+    });
+
+    it("splits the losing stakes among winners", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placePoolPrediction(signers.alice, greater, ethers.parseEther("0.1"));
+      await placePoolPrediction(signers.bob, less, ethers.parseEther("0.3"));
+
+      const { winningStake, points } = await settleAndClaim(day, [signers.alice, signers.bob]);
+
+      expect(winningStake).to.eq(ethers.parseEther("0.1"));
+      expect(points).to.deep.eq([ethers.parseEther("0.4"), 0n]);
+
+      await expect(contract.connect(signers.alice).claimPoolReward(0, day)).to.be.revertedWithCustomError(
+        contract,
+        "AlreadyClaimed",
+      );
+    });
+
+    it("pays stakes nobody confirmed to the winners", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placePoolPrediction(signers.alice, greater, ethers.parseEther("0.1"));
+      await placePoolPrediction(signers.bob, less, ethers.parseEther("0.3"));
+
+      const { totalStake, winningStake, points } = await settleAndClaim(day, [signers.alice]);
+
+      expect(totalStake).to.eq(ethers.parseEther("0.4"));
+      expect(winningStake).to.eq(ethers.parseEther("0.1"));
+      expect(points).to.deep.eq([ethers.parseEther("0.4")]);
+    });
+
+    it("only turns days nobody has predicted on into pools", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(90000n)
+        .add8(greater)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .placePrediction(1, day, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: 1000n })
+      ).wait();
+
+      await expect(contract.connect(signers.deployer).enablePoolMode(1, day)).to.be.revertedWithCustomError(
+        contract,
+        "DayHasPredictions",
+      );
+    });
+
+    it("rejects confirmations after the settlement window", async function () {
+      const day = (await contract.currentDay()) + 1n;
+      await placePoolPrediction(signers.alice, greater, ethers.parseEther("0.1"));
+      expect(await contract.getConfirmationBlocker(signers.alice.address, 0, day)).to.eq("Too early");
+
+      await time.increaseTo(Number(day * 86400n) + 5);
+      expect(await contract.getConfirmationBlocker(signers.alice.address, 0, day)).to.eq("Price not recorded");
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2100)).wait();
+      expect(await contract.getConfirmationBlocker(signers.alice.address, 0, day)).to.eq("");
+      await time.increaseTo(Number((day + 2n) * 86400n) + 5);
+
+      expect(await contract.getConfirmationBlocker(signers.alice.address, 0, day)).to.eq("Settlement closed");
+      await expect(contract.connect(signers.alice).confirmPrediction(0, day))
+        .to.be.revertedWithCustomError(contract, "NotConfirmable")
+        .withArgs("Settlement closed");
+    });
+  });
+  describe("reporter quorum", function () {
+    const reporterRole = ethers.id("REPORTER_ROLE");
+    let reporters: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      reporters = (await ethers.getSigners()).slice(3, 7);
+      for (const reporter of reporters) {
+        await (await contract.connect(signers.deployer).grantRole(reporterRole, reporter.address)).wait();
+      }
+      await (await contract.connect(signers.deployer).setQuorum(3)).wait();
+      await (await contract.connect(signers.deployer).revokeRole(reporterRole, signers.deployer.address)).wait();
+    });
+
+    it("rejects backfills from a single reporter while the quorum is active", async function () {
+      const day = await contract.currentDay();
+      await time.increaseTo(Number((day + 1n) * 86400n) + 5);
+
+      await expect(contract.connect(reporters[0]).backfillDailyPrice(0, day, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "ReporterQuorumActive",
+      );
+      const [, recorded] = await contract.getPrice(0, day);
+      expect(recorded).to.eq(false);
+    });
+
+    it("finalizes the median price once the quorum has reported", async function () {
+      const nextDay = (await contract.currentDay()) + 1n;
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(1900n)
+        .add8(1n)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: 1000n,
+          })
+      ).wait();
+
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await expect(contract.connect(reporters[0]).recordDailyPrice(0, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "ReporterQuorumActive",
+      );
+      await expect(contract.connect(signers.alice).reportPrice(0, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "MissingRole",
+      );
+
+      await (await contract.connect(reporters[0]).reportPrice(0, 2010)).wait();
+      await (await contract.connect(reporters[1]).reportPrice(0, 1990)).wait();
+      await expect(contract.connect(reporters[1]).reportPrice(0, 1995)).to.be.revertedWithCustomError(
+        contract,
+        "AlreadyReported",
+      );
+
+      const [, recordedBeforeQuorum] = await contract.getPrice(0, nextDay);
+      expect(recordedBeforeQuorum).to.eq(false);
+      await expect(contract.connect(signers.alice).confirmPrediction(0, nextDay))
+        .to.be.revertedWithCustomError(contract, "NotConfirmable")
+        .withArgs("Price not recorded");
+
+      await expect(contract.connect(reporters[2]).reportPrice(0, 2000))
+        .to.emit(contract, "PriceRecorded")
+        .withArgs(0, nextDay, 2000);
+      await expect(contract.connect(reporters[3]).reportPrice(0, 2005)).to.be.revertedWithCustomError(
+        contract,
+        "PriceAlreadyRecorded",
+      );
+
+      await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+      const encryptedPoints = await contract.getPoints(signers.alice.address);
+      const clearPoints = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        encryptedPoints,
+        contractAddress,
+        signers.alice,
+      );
+      expect(clearPoints).to.eq(1000n);
+    });
+
+    it("flags reporters outside the allowed deviation", async function () {
+      const day = await contract.currentDay();
+
+      await (await contract.connect(reporters[0]).reportPrice(1, 2000)).wait();
+      await (await contract.connect(reporters[1]).reportPrice(1, 2500)).wait();
+      await expect(contract.connect(reporters[2]).reportPrice(1, 2020))
+        .to.emit(contract, "ReporterFlagged")
+        .withArgs(reporters[1].address, 1, day, 2500, 2020);
+
+      const [price] = await contract.getPrice(1, day);
+      expect(price).to.eq(2020n);
+      expect(await contract.getOutlierCount(reporters[1].address)).to.eq(1n);
+      expect(await contract.getOutlierCount(reporters[0].address)).to.eq(0n);
+
+      const [reportedBy, prices] = await contract.getReports(1, day);
+      expect(reportedBy).to.deep.eq(reporters.slice(0, 3).map((reporter) => reporter.address));
+      expect(prices).to.deep.eq([2000n, 2500n, 2020n]);
+    });
+
+    it("averages the middle reports for an even quorum", async function () {
+      const day = await contract.currentDay();
+      await (await contract.connect(signers.deployer).setQuorum(4)).wait();
+
+      for (const [index, price] of [2100, 1900, 2000, 2050].entries()) {
+        await (await contract.connect(reporters[index]).reportPrice(0, price)).wait();
+      }
+
+      const [price] = await contract.getPrice(0, day);
+      expect(price).to.eq(2025n);
+      await expect(
+        contract.connect(signers.deployer).revokeRole(reporterRole, reporters[0].address),
+      ).to.be.revertedWithCustomError(contract, "QuorumUnreachable");
+    });
+  });
+
+  describe("confidential stakes", function () {
+    let token: ConfidentialTestToken;
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      token = await (await ethers.getContractFactory("ConfidentialTestToken")).deploy("Oracle Stake", "OSTK");
+      tokenAddress = await token.getAddress();
+      await (await contract.connect(signers.deployer).setStakeToken(tokenAddress)).wait();
+      await (await token.connect(signers.deployer).mint(signers.alice.address, 1000n)).wait();
+      const until = (await time.latest()) + 86400 * 10;
+      await (await token.connect(signers.alice).setOperator(contractAddress, until)).wait();
+    });
+
+    async function placeConfidential(day: bigint, stake: bigint) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(1900n)
+        .add8(1n)
+        .add64(stake)
+        .encrypt();
+      return contract
+        .connect(signers.alice)
+        .placeConfidentialPrediction(
+          0,
+          day,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.inputProof,
+        );
+    }
+
+    async function decryptBalance(signer = signers.alice) {
+      const balance = await token.confidentialBalanceOf(signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, signer);
+    }
+
+    async function decryptRewards() {
+      const rewards = await contract.getTokenRewards(signers.alice.address);
+      return fhevm.userDecryptEuint(FhevmType.euint64, rewards, contractAddress, signers.alice);
+    }
+
+    it("pulls an encrypted stake and rewards it without publishing the amount", async function () {
+      const nextDay = (await contract.currentDay()) + 1n;
+      await expect(placeConfidential(nextDay, 600n))
+        .to.emit(contract, "PredictionPlaced")
+        .withArgs(signers.alice.address, 0, nextDay, 0);
+      expect(await decryptBalance()).to.eq(400n);
+
+      const prediction = await contract.getPrediction(signers.alice.address, 0, nextDay);
+      expect(prediction.stake).to.eq(0n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, prediction.encryptedStake, contractAddress, signers.alice),
+      ).to.eq(600n);
+
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+      await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+
+      // Token stakes earn stake tokens, not ETH-redeemable points.
+      const encryptedPoints = await contract.getPoints(signers.alice.address);
+      const clearPoints = await fhevm.userDecryptEuint(
+        FhevmType.euint128,
+        encryptedPoints,
+        contractAddress,
+        signers.alice,
+      );
+      expect(clearPoints).to.eq(0n);
+      expect(await decryptRewards()).to.eq(600n);
+
+      await expect(contract.connect(signers.alice).claimTokenRewards())
+        .to.emit(contract, "TokenRewardsClaimed")
+        .withArgs(signers.alice.address);
+      expect(await decryptBalance()).to.eq(1000n);
+      expect(await decryptRewards()).to.eq(0n);
+      await expect(contract.connect(signers.deployer).setStakeToken(tokenAddress)).to.be.revertedWithCustomError(
+        contract,
+        "StakeTokenAlreadySet",
+      );
+    });
+
+    it("pulls nothing above the balance and refunds unpriced days in tokens", async function () {
+      const nextDay = (await contract.currentDay()) + 1n;
+      await (await placeConfidential(nextDay, 5000n)).wait();
+      expect(await decryptBalance()).to.eq(1000n);
+
+      await (await placeConfidential(nextDay + 1n, 700n)).wait();
+      expect(await decryptBalance()).to.eq(300n);
+
+      await time.increaseTo(Number((nextDay + 4n) * 86400n) + 5);
+      await (await contract.connect(signers.alice).claimRefund(0, nextDay + 1n)).wait();
+      expect(await decryptBalance()).to.eq(1000n);
+    });
+
+    it("keeps token rewards owed until the treasury can pay them", async function () {
+      const day = (await contract.currentDay()) + 2n;
+      await (await placeConfidential(day, 600n)).wait();
+
+      await time.increaseTo(Number(day * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+      await (await contract.connect(signers.alice).confirmPrediction(0, day)).wait();
+      expect(await decryptRewards()).to.eq(630n);
+
+      // The contract only holds the 600 staked, so the claim moves nothing and the reward stays owed.
+      await (await contract.connect(signers.alice).claimTokenRewards()).wait();
+      expect(await decryptBalance()).to.eq(400n);
+      expect(await decryptRewards()).to.eq(630n);
+
+      await (await token.connect(signers.deployer).mint(contractAddress, 100n)).wait();
+      await (await contract.connect(signers.alice).claimTokenRewards()).wait();
+      expect(await decryptBalance()).to.eq(1030n);
+      expect(await decryptRewards()).to.eq(0n);
+
+      await (await placeConfidential(day + 1n, 500n)).wait();
+      await expect(
+        contract.connect(signers.bob).withdrawTokenTreasury(signers.bob.address, 70n),
+      ).to.be.revertedWithCustomError(contract, "MissingRole");
+      // 570 are held, 500 of them staked on an open prediction.
+      await (await contract.connect(signers.deployer).withdrawTokenTreasury(signers.bob.address, 71n)).wait();
+      expect(await decryptBalance(signers.bob)).to.eq(0n);
+      await expect(contract.connect(signers.deployer).withdrawTokenTreasury(signers.bob.address, 70n))
+        .to.emit(contract, "TokenTreasuryWithdrawn")
+        .withArgs(signers.bob.address, 70n);
+      expect(await decryptBalance(signers.bob)).to.eq(70n);
+    });
+  });
+
+  describe("points token", function () {
+    let points: PrivPoints;
+    let pointsAddress: string;
+
+    beforeEach(async function () {
+      pointsAddress = await contract.getPointsToken();
+      points = await ethers.getContractAt("PrivPoints", pointsAddress);
+
+      const nextDay = (await contract.currentDay()) + 1n;
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(1900n)
+        .add8(1n)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .placePrediction(0, nextDay, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: 1000n,
+          })
+      ).wait();
+      await time.increaseTo(Number(nextDay * 86400n) + 5);
+      await (await contract.connect(signers.deployer).recordDailyPrice(0, 2000)).wait();
+      await (await contract.connect(signers.alice).confirmPrediction(0, nextDay)).wait();
+    });
+
+    async function balanceOf(signer: HardhatEthersSigner) {
+      const balance = await points.confidentialBalanceOf(signer.address);
+      return fhevm.userDecryptEuint(FhevmType.euint128, balance, pointsAddress, signer);
+    }
+
+    async function encryptAmount(signer: HardhatEthersSigner, amount: bigint) {
+      return fhevm.createEncryptedInput(pointsAddress, signer.address).add128(amount).encrypt();
+    }
+
+    it("moves points with encrypted transfers and never more than the balance", async function () {
+      const send = await encryptAmount(signers.alice, 300n);
+      await (
+        await points
+          .connect(signers.alice)
+          ["confidentialTransfer(address,bytes32,bytes)"](signers.bob.address, send.handles[0], send.inputProof)
+      ).wait();
+      expect(await balanceOf(signers.alice)).to.eq(700n);
+      expect(await balanceOf(signers.bob)).to.eq(300n);
+
+      const tooMuch = await encryptAmount(signers.bob, 301n);
+      await (
+        await points
+          .connect(signers.bob)
+          ["confidentialTransfer(address,bytes32,bytes)"](signers.alice.address, tooMuch.handles[0], tooMuch.inputProof)
+      ).wait();
+      expect(await balanceOf(signers.bob)).to.eq(300n);
+
+      // Received points redeem like earned ones.
+      await (await contract.connect(signers.bob).requestFullRedemption()).wait();
+      const [, amount] = await contract.getRedemption(1);
+      const decryption = await fhevm.publicDecrypt([amount]);
+      expect(decryption.clearValues[amount as `0x${string}`]).to.eq(300n);
+    });
+
+    it("lets operators move points and only the oracle mint them", async function () {
+      const payment = await encryptAmount(signers.bob, 250n);
+      const transferFrom = () =>
+        points
+          .connect(signers.bob)
+          ["confidentialTransferFrom(address,address,bytes32,bytes)"](
+            signers.alice.address,
+            signers.bob.address,
+            payment.handles[0],
+            payment.inputProof,
+          );
+      await expect(transferFrom()).to.be.revertedWithCustomError(points, "NotOperator");
+
+      await (await points.connect(signers.alice).setOperator(signers.bob.address, (await time.latest()) + 3600)).wait();
+      await (await transferFrom()).wait();
+      expect(await balanceOf(signers.alice)).to.eq(750n);
+      expect(await balanceOf(signers.bob)).to.eq(250n);
+
+      const handle = await points.confidentialBalanceOf(signers.alice.address);
+      await expect(points.connect(signers.alice).mint(signers.alice.address, handle)).to.be.revertedWithCustomError(
+        points,
+        "MinterOnly",
+      );
+      expect(await points.minter()).to.eq(contractAddress);
+    });
+  });
+
+  describe("price feed", function () {
+    let feed: MockAggregatorV3;
+
+    beforeEach(async function () {
+      feed = await (await ethers.getContractFactory("MockAggregatorV3")).deploy(8, "ETH / USD");
+      await (await contract.connect(signers.deployer).setPriceFeed(0, await feed.getAddress())).wait();
+    });
+
+    it("records today's feed answer at the asset's precision", async function () {
+      const day = await contract.currentDay();
+      await time.increaseTo(Number(day * 86400n) + 86400 + 600);
+      const today = day + 1n;
+
+      await (await feed.setRoundData(352147250000n, await time.latest())).wait();
+      await expect(contract.connect(signers.alice).pullDailyPrice(0))
+        .to.emit(contract, "PriceRecorded")
+        .withArgs(0, today, 352147n);
+
+      await expect(contract.connect(signers.alice).pullDailyPrice(0)).to.be.revertedWithCustomError(
+        contract,
+        "PriceAlreadyRecorded",
+      );
+      await expect(contract.connect(signers.deployer).recordDailyPrice(0, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "PriceFeedActive",
+      );
+      await expect(contract.connect(signers.deployer).backfillDailyPrice(0, day, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "PriceFeedActive",
+      );
+      await expect(contract.connect(signers.alice).pullDailyPrice(1)).to.be.revertedWithCustomError(
+        contract,
+        "NoPriceFeed",
+      );
+    });
+
+    it("rejects stale answers and rounds from a previous day", async function () {
+      const day = await contract.currentDay();
+      const nextDayStart = Number((day + 1n) * 86400n);
+
+      await time.increaseTo(nextDayStart - 600);
+      await (await feed.setRoundData(200000000000n, await time.latest())).wait();
+      await time.increaseTo(nextDayStart + 60);
+      await expect(contract.pullDailyPrice(0)).to.be.revertedWithCustomError(contract, "FeedRoundOutsideToday");
+
+      await (await feed.setRoundData(200000000000n, nextDayStart + 60)).wait();
+      await time.increaseTo(nextDayStart + 60 + 3601);
+      await expect(contract.pullDailyPrice(0)).to.be.revertedWithCustomError(contract, "StaleFeedPrice");
+
+      await (await feed.setRoundData(0n, await time.latest())).wait();
+      await expect(contract.pullDailyPrice(0)).to.be.revertedWithCustomError(contract, "InvalidFeedAnswer");
+    });
+  });
 });